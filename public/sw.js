@@ -0,0 +1,75 @@
+// Kid Timer service worker
+// Precaches the built app so it loads offline, and handles the buttons on timer notifications
+
+// Defines self.__PRECACHE_MANIFEST = { version, urls } (generated at build time, see vite.config.ts)
+importScripts('precache-manifest.js')
+
+const { version, urls } = self.__PRECACHE_MANIFEST
+const CACHE_NAME = `kid-timer-${version}`
+
+// Cache the whole app up front. The new worker then waits until the page
+// accepts the update prompt, so a running timer is never reloaded out from under anyone
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(urls))
+  )
+})
+
+// Drop caches from older builds
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(
+      names
+        .filter((name) => name.startsWith('kid-timer-') && name !== CACHE_NAME)
+        .map((name) => caches.delete(name))
+    )
+    await self.clients.claim()
+  })())
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'skip-waiting') {
+    self.skipWaiting()
+  }
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  // Only our own files - PubNub and other origins go straight to the network
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    // Pages: fresh from the network when possible, the cached app when offline
+    event.respondWith(
+      fetch(request).catch(async () =>
+        (await caches.match(request)) ?? (await caches.match(self.registration.scope)) ?? Response.error()
+      )
+    )
+    return
+  }
+
+  // Built assets have hashed names, so a cached copy is always right
+  event.respondWith(
+    caches.match(request).then((cached) => cached ?? fetch(request))
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  const { timerId } = event.notification.data ?? {}
+  const action = event.action || 'open' // Clicking the notification body has no action
+  event.notification.close()
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    const client = windows[0]
+
+    if (client) {
+      await client.focus()
+      client.postMessage({ type: 'notification-action', action, timerId })
+    } else {
+      // The app was closed - opening it is all we can do
+      await self.clients.openWindow(self.registration.scope)
+    }
+  })())
+})
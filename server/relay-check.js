@@ -0,0 +1,139 @@
+// Runs the relay locally and checks it end to end with two clients:
+// presence (with device names), pub/sub, history and time. Exits non-zero if anything is off.
+//
+//   node server/relay-check.js        (or: yarn relay:check)
+import { request } from 'node:http'
+import { randomBytes } from 'node:crypto'
+import { once } from 'node:events'
+import { createRelayServer } from './relay.js'
+import { acceptKey, createFrameReader, encodeFrame, OPCODES } from './websocket.js'
+
+// Give up if the whole check takes longer than this
+const TIMEOUT_MS = 10 * 1000
+
+const CHANNEL = 'relay-check'
+
+// Minimal WebSocket client - resolves once the handshake is done
+const connect = (port, clientId) => new Promise((resolve, reject) => {
+  const key = randomBytes(16).toString('base64')
+  const upgradeRequest = request({
+    port,
+    host: '127.0.0.1',
+    headers: {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Key': key,
+      'Sec-WebSocket-Version': '13'
+    }
+  })
+
+  upgradeRequest.on('upgrade', (response, socket) => {
+    if (response.headers['sec-websocket-accept'] !== acceptKey(key)) {
+      reject(new Error('Bad handshake'))
+      return
+    }
+
+    const received = []
+    const waiting = []
+    socket.on('data', createFrameReader((opcode, payload) => {
+      if (opcode === OPCODES.ping) {
+        socket.write(encodeFrame(OPCODES.pong, payload, true))
+      } else if (opcode === OPCODES.text) {
+        received.push(JSON.parse(payload.toString('utf8')))
+        waiting.splice(0).forEach((check) => check())
+      }
+    }, reject))
+
+    resolve({
+      clientId,
+      send: (data) => socket.write(encodeFrame(OPCODES.text, JSON.stringify(data), true)),
+      // Resolve with the first message (received so far or later) that matches
+      waitFor: (matches) => new Promise((resolveMessage) => {
+        const check = () => {
+          const index = received.findIndex(matches)
+          if (index === -1) {
+            waiting.push(check)
+          } else {
+            resolveMessage(received.splice(index, 1)[0])
+          }
+        }
+        check()
+      }),
+      close: () => socket.end(encodeFrame(OPCODES.close, undefined, true))
+    })
+  })
+  upgradeRequest.on('error', reject)
+  upgradeRequest.end()
+})
+
+const check = (description, isOk) => {
+  if (!isOk) throw new Error(description)
+  console.log('✅', description)
+}
+
+const run = async () => {
+  const server = createRelayServer()
+  server.listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  const { port } = server.address()
+  console.log(`🔌 Relay running on ws://127.0.0.1:${port}`)
+
+  try {
+    const parent = await connect(port, 'parent-phone')
+    const kid = await connect(port, 'kid-tablet')
+
+    parent.send({ type: 'subscribe', channel: CHANNEL, clientId: parent.clientId, state: { name: "Mom's phone" } })
+    kid.send({ type: 'subscribe', channel: CHANNEL, clientId: kid.clientId })
+    const presence = await parent.waitFor((message) => message.type === 'presence' && message.clientIds.length === 2)
+    check('Presence lists both clients', presence.clientIds.includes('kid-tablet'))
+
+    kid.send({ type: 'state', state: { name: 'Kitchen tablet' } })
+    const named = await parent.waitFor((message) => message.type === 'presence' &&
+      message.clients.some((client) => client.state?.name === 'Kitchen tablet'))
+    check('Presence carries device names', named.clients.some((client) => client.state?.name === "Mom's phone"))
+
+    const state = { id: 'timer-1', label: 'Bath', lastUpdated: 1 }
+    parent.send({ type: 'publish', channel: CHANNEL, message: state, requestId: 1 })
+    await parent.waitFor((message) => message.type === 'ack' && message.requestId === 1)
+    const delivered = await kid.waitFor((message) => message.type === 'message')
+    check('Published state reaches the other client', delivered.message.label === 'Bath')
+
+    // A run of changes, then a run of older states arriving last (e.g. from a device that was offline)
+    const changes = [6, 7, 8, 9, 10].map((counter) => ({ ...state, label: `Change ${counter}`, counter, lastUpdated: counter }))
+    const staleChanges = [1, 2, 3, 4, 5].map((counter) => ({ ...state, label: `Stale ${counter}`, counter, lastUpdated: counter }))
+    for (const [index, change] of [...changes, ...staleChanges].entries()) {
+      parent.send({ type: 'publish', channel: CHANNEL, message: change, requestId: 10 + index })
+      await parent.waitFor((message) => message.type === 'ack' && message.requestId === 10 + index)
+    }
+    kid.send({ type: 'history', channel: CHANNEL, count: 100, requestId: 3 })
+    const history = await kid.waitFor((message) => message.type === 'history' && message.requestId === 3)
+    check('History keeps the last few states per timer', history.messages.length === 5)
+    check('History never drops the newest state for an older one', history.messages.some((message) => message.label === 'Change 10'))
+
+    kid.send({ type: 'time', requestId: 4 })
+    const time = await kid.waitFor((message) => message.type === 'time' && message.requestId === 4)
+    check('Time reference is close to this machine\'s clock', Math.abs(time.time - Date.now()) < 1000)
+
+    kid.close()
+    const afterLeave = await parent.waitFor((message) => message.type === 'presence' && message.clientIds.length === 1)
+    check('Presence drops a client that disconnects', afterLeave.clientIds[0] === 'parent-phone')
+
+    parent.close()
+    console.log('🎉 Relay check passed')
+  } finally {
+    server.closeAllConnections()
+    server.close()
+  }
+}
+
+const timeoutId = setTimeout(() => {
+  console.error('❌ Relay check timed out')
+  process.exit(1)
+}, TIMEOUT_MS)
+
+run().then(() => {
+  clearTimeout(timeoutId)
+}).catch((error) => {
+  console.error('❌ Relay check failed:', error.message)
+  process.exit(1)
+})
@@ -0,0 +1,220 @@
+// Kid Timer relay: a small self-hosted stand-in for PubNub, for families who'd rather keep
+// everything on the home network. Provides channel pub/sub, the latest few states of every timer
+// per channel (served as history), presence (with device names) and a time reference for clock correction.
+//
+//   node server/relay.js        (or: yarn relay)
+//
+// RELAY_PORT (default 8787) and RELAY_HOST (default 0.0.0.0) choose where it listens.
+// RELAY_STATE_FILE, if set, keeps the stored timer states across restarts
+import { createServer } from 'node:http'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { pathToFileURL } from 'node:url'
+import { acceptKey, createFrameReader, encodeFrame, OPCODES } from './websocket.js'
+
+// Same number of messages PubNub history hands back
+const HISTORY_LIMIT = 100
+
+// Messages kept per timer id. The relay can't check signatures, so it keeps a few and lets the clients
+// pick the newest correctly signed one
+const MESSAGES_PER_ID = 5
+
+// Connections that don't answer a ping within this long are dropped (and leave presence)
+const PING_INTERVAL_MS = 30 * 1000
+
+// Wait this long after a change before writing the state file
+const SAVE_DELAY_MS = 1000
+
+export const createRelayServer = ({ stateFile } = {}) => {
+  // Per channel: the last few messages per timer id, oldest first
+  let history = {}
+  // Per channel: connected clients
+  const channels = new Map()
+  let saveTimeoutId = null
+
+  if (stateFile) {
+    try {
+      history = JSON.parse(readFileSync(stateFile, 'utf8'))
+      console.log('📜 Loaded timer states from', stateFile)
+    } catch {
+      console.log('📜 No saved timer states yet - starting empty')
+    }
+  }
+
+  const scheduleSave = () => {
+    if (!stateFile || saveTimeoutId) return
+    saveTimeoutId = setTimeout(() => {
+      saveTimeoutId = null
+      writeFileSync(stateFile, JSON.stringify(history))
+    }, SAVE_DELAY_MS)
+  }
+
+  // Keep the last few messages per timer id (a message published again moves to the end). The plaintext
+  // message with the highest Lamport counter always stays, so a reconnecting device's older queued state
+  // or an unsigned message stamped with a real id can't push the newest state out. Encrypted messages
+  // don't show their counter - they're simply kept in arrival order
+  const storeMessage = (channel, message) => {
+    const serialized = JSON.stringify(message)
+    let messages = [...(history[channel] ?? []).filter((stored) => JSON.stringify(stored) !== serialized), message]
+
+    const sameId = typeof message?.id === 'string' ? messages.filter((stored) => stored?.id === message.id) : []
+    if (sameId.length > MESSAGES_PER_ID) {
+      const highestCounter = sameId
+        .filter((stored) => typeof stored.counter === 'number')
+        .reduce((highest, stored) => (!highest || stored.counter > highest.counter ? stored : highest), null)
+      const oldest = sameId.find((stored) => stored !== highestCounter)
+      messages = messages.filter((stored) => stored !== oldest)
+    }
+
+    history[channel] = messages.slice(-HISTORY_LIMIT)
+    scheduleSave()
+  }
+
+  const send = (client, data) => {
+    if (!client.socket.destroyed) {
+      client.socket.write(encodeFrame(OPCODES.text, JSON.stringify(data)))
+    }
+  }
+
+  const reportPresence = (channel) => {
+    const clients = channels.get(channel)
+    if (!clients) return
+    // One entry per client id (a device may be connected more than once), with its presence state
+    const states = new Map([...clients].map((client) => [client.clientId, client.state]))
+    const presence = {
+      type: 'presence',
+      channel,
+      clientIds: [...states.keys()],
+      clients: [...states].map(([clientId, state]) => ({ clientId, state }))
+    }
+    clients.forEach((client) => send(client, presence))
+  }
+
+  const leaveChannel = (client) => {
+    const channel = client.channel
+    if (!channel) return
+    client.channel = null
+    channels.get(channel)?.delete(client)
+    if (channels.get(channel)?.size === 0) channels.delete(channel)
+    reportPresence(channel)
+  }
+
+  const handleRequest = (client, request) => {
+    switch (request.type) {
+      case 'subscribe':
+        leaveChannel(client)
+        client.channel = String(request.channel)
+        client.clientId = String(request.clientId ?? 'anonymous')
+        client.state = request.state ?? null
+        if (!channels.has(client.channel)) channels.set(client.channel, new Set())
+        channels.get(client.channel).add(client)
+        console.log('🔔', client.clientId, 'joined', client.channel)
+        reportPresence(client.channel)
+        break
+      case 'state':
+        // What this client tells the others about itself, e.g. its device name
+        client.state = request.state ?? null
+        reportPresence(client.channel)
+        break
+      case 'unsubscribe':
+        leaveChannel(client)
+        break
+      case 'publish': {
+        const channel = String(request.channel)
+        storeMessage(channel, request.message)
+        // Everyone on the channel gets it, the sender included (like PubNub)
+        channels.get(channel)?.forEach((subscriber) => send(subscriber, { type: 'message', channel, message: request.message }))
+        send(client, { type: 'ack', requestId: request.requestId })
+        break
+      }
+      case 'history': {
+        const messages = history[String(request.channel)] ?? []
+        const count = Math.max(0, Math.min(Number(request.count) || HISTORY_LIMIT, HISTORY_LIMIT))
+        send(client, { type: 'history', requestId: request.requestId, messages: messages.slice(-count) })
+        break
+      }
+      case 'time':
+        send(client, { type: 'time', requestId: request.requestId, time: Date.now() })
+        break
+      default:
+        send(client, { type: 'error', requestId: request.requestId, error: `Unknown request type: ${request.type}` })
+    }
+  }
+
+  const server = createServer((_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/plain' })
+    response.end('Kid Timer relay is running\n')
+  })
+
+  server.on('upgrade', (request, socket) => {
+    const key = request.headers['sec-websocket-key']
+    if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+      socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+      return
+    }
+
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${acceptKey(key)}`,
+      '',
+      ''
+    ].join('\r\n'))
+    socket.setNoDelay(true)
+
+    const client = { socket, channel: null, clientId: null, state: null, isAlive: true }
+
+    const close = () => {
+      leaveChannel(client)
+      socket.destroy()
+    }
+
+    const readFrames = createFrameReader((opcode, payload) => {
+      if (opcode === OPCODES.text) {
+        try {
+          handleRequest(client, JSON.parse(payload.toString('utf8')))
+        } catch (error) {
+          console.error('❌ Bad request:', error.message)
+        }
+      } else if (opcode === OPCODES.ping) {
+        socket.write(encodeFrame(OPCODES.pong, payload))
+      } else if (opcode === OPCODES.pong) {
+        client.isAlive = true
+      } else if (opcode === OPCODES.close) {
+        socket.end(encodeFrame(OPCODES.close))
+        leaveChannel(client)
+      }
+    }, (error) => {
+      console.error('❌ Dropping connection:', error)
+      close()
+    })
+
+    socket.on('data', readFrames)
+    socket.on('close', () => leaveChannel(client))
+    socket.on('error', close)
+
+    const pingIntervalId = setInterval(() => {
+      if (!client.isAlive) {
+        console.log('⏱️ No answer from', client.clientId ?? 'client', '- dropping it')
+        clearInterval(pingIntervalId)
+        close()
+        return
+      }
+      client.isAlive = false
+      socket.write(encodeFrame(OPCODES.ping))
+    }, PING_INTERVAL_MS)
+    socket.on('close', () => clearInterval(pingIntervalId))
+  })
+
+  return server
+}
+
+// Started from the command line (rather than imported by the check script)
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.RELAY_PORT) || 8787
+  const host = process.env.RELAY_HOST || '0.0.0.0'
+
+  createRelayServer({ stateFile: process.env.RELAY_STATE_FILE }).listen(port, host, () => {
+    console.log(`✅ Kid Timer relay listening on ws://${host}:${port}`)
+  })
+}
@@ -0,0 +1,108 @@
+// Just enough of the WebSocket protocol (RFC 6455) for the relay and its check script,
+// so the relay runs on plain Node with no packages to install
+import { createHash, randomBytes } from 'node:crypto'
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+
+// Frames bigger than this are refused (timer states are a few KB at most)
+const MAX_PAYLOAD_BYTES = 1024 * 1024
+
+export const OPCODES = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+}
+
+// Value for the Sec-WebSocket-Accept header answering a client's Sec-WebSocket-Key
+export const acceptKey = (key) => createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64')
+
+// Build a single (final) frame. Clients must mask what they send, servers must not
+export const encodeFrame = (opcode, payload = Buffer.alloc(0), masked = false) => {
+  const data = Buffer.isBuffer(payload) ? payload : Buffer.from(payload)
+  const lengthBytes = data.length < 126 ? 0 : data.length < 65536 ? 2 : 8
+  const header = Buffer.alloc(2 + lengthBytes + (masked ? 4 : 0))
+
+  header[0] = 0x80 | opcode
+  if (lengthBytes === 0) {
+    header[1] = data.length
+  } else if (lengthBytes === 2) {
+    header[1] = 126
+    header.writeUInt16BE(data.length, 2)
+  } else {
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(data.length), 2)
+  }
+  if (!masked) return Buffer.concat([header, data])
+
+  header[1] |= 0x80
+  const mask = randomBytes(4)
+  mask.copy(header, 2 + lengthBytes)
+  const maskedData = Buffer.from(data.map((byte, index) => byte ^ mask[index % 4]))
+  return Buffer.concat([header, maskedData])
+}
+
+// Feed it socket data; it calls onMessage(opcode, payload) for each complete message
+// (fragments joined, masks removed) and onError(message) for anything it can't parse
+export const createFrameReader = (onMessage, onError) => {
+  let buffered = Buffer.alloc(0)
+  let fragments = null // { opcode, parts } while a fragmented message is arriving
+
+  return (chunk) => {
+    buffered = Buffer.concat([buffered, chunk])
+
+    while (buffered.length >= 2) {
+      const isFinal = (buffered[0] & 0x80) !== 0
+      const opcode = buffered[0] & 0x0f
+      const isMasked = (buffered[1] & 0x80) !== 0
+      let length = buffered[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (buffered.length < 4) return
+        length = buffered.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (buffered.length < 10) return
+        length = Number(buffered.readBigUInt64BE(2))
+        offset = 10
+      }
+      if (length > MAX_PAYLOAD_BYTES) {
+        onError('Frame too large')
+        return
+      }
+
+      const maskOffset = offset
+      if (isMasked) offset += 4
+      if (buffered.length < offset + length) return // Wait for the rest of the frame
+
+      let payload = buffered.subarray(offset, offset + length)
+      if (isMasked) {
+        const mask = buffered.subarray(maskOffset, maskOffset + 4)
+        payload = Buffer.from(payload.map((byte, index) => byte ^ mask[index % 4]))
+      }
+      buffered = buffered.subarray(offset + length)
+
+      if (opcode >= OPCODES.close) {
+        // Control frames are never fragmented and may arrive in the middle of a fragmented message
+        onMessage(opcode, payload)
+      } else if (opcode === OPCODES.continuation) {
+        if (!fragments) {
+          onError('Unexpected continuation frame')
+          return
+        }
+        fragments.parts.push(payload)
+        if (isFinal) {
+          onMessage(fragments.opcode, Buffer.concat(fragments.parts))
+          fragments = null
+        }
+      } else if (isFinal) {
+        onMessage(opcode, payload)
+      } else {
+        fragments = { opcode, parts: [payload] }
+      }
+    }
+  }
+}
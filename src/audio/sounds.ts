@@ -0,0 +1,101 @@
+// Synthesized alarm and warning sounds (Web Audio API - no audio files to download)
+
+export type SoundChoice = 'chime' | 'bell' | 'beep'
+
+export const SOUND_LABELS: Record<SoundChoice, string> = {
+  chime: 'Chime',
+  bell: 'Bell',
+  beep: 'Beep',
+}
+
+interface Note {
+  frequency: number // Hz
+  type: OscillatorType
+  offset: number // Seconds after the sound starts
+  duration: number // Seconds until the note has died away
+  gain: number // Peak loudness before the volume setting is applied
+}
+
+// Each sound is a handful of notes with a quick attack and an exponential decay
+const SOUNDS: Record<SoundChoice, Note[]> = {
+  // Rising C major arpeggio
+  chime: [523.25, 659.25, 783.99, 1046.5].map((frequency, index) => ({
+    frequency,
+    type: 'sine',
+    offset: index * 0.15,
+    duration: 1.2,
+    gain: 0.4,
+  })),
+  // Struck bell: a fundamental plus inharmonic partials that ring out
+  bell: [1, 2.76, 5.4, 8.93].map((ratio, index) => ({
+    frequency: 440 * ratio,
+    type: 'sine',
+    offset: 0,
+    duration: 2.5 / (index + 1),
+    gain: 0.5 / (index + 1),
+  })),
+  // Three short square-wave beeps
+  beep: [0, 0.25, 0.5].map((offset) => ({
+    frequency: 880,
+    type: 'square',
+    offset,
+    duration: 0.15,
+    gain: 0.15,
+  })),
+}
+
+// Warning tones are the start of the sound, played quieter
+const WARNING_NOTES = 2
+const WARNING_GAIN = 0.4
+
+let audioContext: AudioContext | null = null
+
+// Browsers only allow audio once the user has interacted with the page -
+// call this from an event handler (e.g. a Timer button press) to unlock it
+export const unlockAudio = () => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext ?? (window as any).webkitAudioContext
+    if (!AudioContextClass) {
+      console.warn('Web Audio API is not supported in this browser')
+      return
+    }
+    audioContext = new AudioContextClass()
+  }
+
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().then(() => console.log('🔊 Audio unlocked'))
+  }
+}
+
+export const isAudioUnlocked = () => audioContext?.state === 'running'
+
+// Play a sound at the given volume (0-1). Intensity (0-1) scales it further so an alarm can
+// start gently and escalate. Returns false if audio hasn't been unlocked yet.
+export const playSound = (sound: SoundChoice, volume: number, { intensity = 1, isWarning = false } = {}) => {
+  if (!audioContext || audioContext.state !== 'running') return false
+
+  const notes = isWarning ? SOUNDS[sound].slice(0, WARNING_NOTES) : SOUNDS[sound]
+  const loudness = Math.max(0, Math.min(1, volume)) * Math.max(0, Math.min(1, intensity)) * (isWarning ? WARNING_GAIN : 1)
+  if (loudness <= 0) return true
+
+  const now = audioContext.currentTime
+  notes.forEach((note) => {
+    const start = now + note.offset
+    const oscillator = audioContext!.createOscillator()
+    const amplifier = audioContext!.createGain()
+
+    oscillator.type = note.type
+    oscillator.frequency.value = note.frequency
+
+    // Exponential ramps can't reach zero, so fade from/to a tiny value instead
+    amplifier.gain.setValueAtTime(0.0001, start)
+    amplifier.gain.exponentialRampToValueAtTime(Math.max(0.0001, note.gain * loudness), start + 0.01)
+    amplifier.gain.exponentialRampToValueAtTime(0.0001, start + note.duration)
+
+    oscillator.connect(amplifier).connect(audioContext!.destination)
+    oscillator.start(start)
+    oscillator.stop(start + note.duration + 0.05)
+  })
+
+  return true
+}
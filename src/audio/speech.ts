@@ -0,0 +1,73 @@
+// Spoken announcements through the browser's speech synthesis
+
+// Phrase templates - {label} is the timer's name, {count} a number of minutes or seconds
+export interface SpeechPhrases {
+  minutesLeft: string
+  oneMinuteLeft: string
+  secondsLeft: string
+  timesUp: string
+}
+
+// Built-in phrases per language (the settings dialog can still edit them)
+export const SPEECH_PHRASES: Record<string, SpeechPhrases> = {
+  en: {
+    minutesLeft: '{label}: {count} minutes left',
+    oneMinuteLeft: '{label}: one minute left',
+    secondsLeft: '{label}: {count} seconds left',
+    timesUp: "{label}: time's up, please put the tablet away",
+  },
+  es: {
+    minutesLeft: '{label}: quedan {count} minutos',
+    oneMinuteLeft: '{label}: queda un minuto',
+    secondsLeft: '{label}: quedan {count} segundos',
+    timesUp: '{label}: se acabó el tiempo, por favor guarda la tableta',
+  },
+  fr: {
+    minutesLeft: '{label} : encore {count} minutes',
+    oneMinuteLeft: '{label} : encore une minute',
+    secondsLeft: '{label} : encore {count} secondes',
+    timesUp: "{label} : c'est fini, range la tablette s'il te plaît",
+  },
+  de: {
+    minutesLeft: '{label}: noch {count} Minuten',
+    oneMinuteLeft: '{label}: noch eine Minute',
+    secondsLeft: '{label}: noch {count} Sekunden',
+    timesUp: '{label}: Die Zeit ist um, bitte leg das Tablet weg',
+  },
+}
+
+export const SPEECH_LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+}
+
+// Best built-in language for this browser, falling back to English
+export const getDefaultSpeechLanguage = () => {
+  const language = (typeof navigator !== 'undefined' ? navigator.language : 'en').split('-')[0]
+  return SPEECH_PHRASES[language] ? language : 'en'
+}
+
+export const isSpeechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window
+
+const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key) => key in values ? String(values[key]) : match)
+
+// Phrase for the given number of seconds left (0 means time's up)
+export const formatAnnouncement = (phrases: SpeechPhrases, label: string, remainingSeconds: number) => {
+  if (remainingSeconds <= 0) return fillTemplate(phrases.timesUp, { label })
+  if (remainingSeconds === 60) return fillTemplate(phrases.oneMinuteLeft, { label })
+  if (remainingSeconds % 60 === 0) return fillTemplate(phrases.minutesLeft, { label, count: remainingSeconds / 60 })
+  return fillTemplate(phrases.secondsLeft, { label, count: remainingSeconds })
+}
+
+export const speak = (text: string, language: string, volume: number) => {
+  if (!isSpeechSupported()) return
+
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.lang = language
+  utterance.volume = Math.max(0, Math.min(1, volume))
+  console.log('🗣️ Speaking:', text)
+  window.speechSynthesis.speak(utterance)
+}
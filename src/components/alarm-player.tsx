@@ -0,0 +1,89 @@
+import { useEffect, useRef } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import { playSound } from '../audio/sounds'
+import { useDeviceSettings } from '../contexts/device-settings-context'
+import { isCompletionAcknowledged } from '../store'
+import { clockNow } from '../store/clock'
+import type { AppState } from '../store'
+
+interface AlarmPlayerProps {
+  // Redux Zero props
+  timers: AppState['timers']
+  warnings: AppState['warnings']
+  ui: AppState['ui']
+}
+
+// An unacknowledged completion gives up ringing after this long
+const MAX_ALARM_MS = 10 * 60 * 1000
+
+// The alarm starts quiet and slow, then gets louder and more frequent with every repeat
+const ALARM_START_INTENSITY = 0.4
+const ALARM_INTENSITY_STEP = 0.15
+const ALARM_START_GAP_MS = 4000
+const ALARM_GAP_STEP_MS = 500
+const ALARM_MIN_GAP_MS = 1500
+
+// Plays the completion alarm and warning tones for every timer in the room (renders nothing)
+function AlarmPlayerComponent({ timers, warnings, ui }: AlarmPlayerProps) {
+  const { settings } = useDeviceSettings()
+  // The alarm loop reads the latest settings without restarting
+  const settingsRef = useRef(settings)
+  settingsRef.current = settings
+  // Only warnings noticed after the page loaded make a sound
+  const lastWarningAtRef = useRef(clockNow())
+
+  // Finished timers nobody on this device has acknowledged yet, as a key that only
+  // changes when the set of ringing timers does (not on every tick)
+  const ringingKey = Object.values(timers)
+    .filter((timer) =>
+      timer.isComplete &&
+      timer.endTime !== null &&
+      !isCompletionAcknowledged(ui, timer) &&
+      ui.currentTime - timer.endTime < MAX_ALARM_MS
+    )
+    .map((timer) => `${timer.id}@${timer.endTime}`)
+    .sort()
+    .join(',')
+
+  // Escalating completion alarm, repeating until acknowledged (or the timer is restarted/reset)
+  useEffect(() => {
+    if (!ringingKey) return
+
+    console.log('⏰ Alarm ringing:', ringingKey)
+    let repeat = 0
+    let timeoutId: number
+
+    const ring = () => {
+      const intensity = Math.min(1, ALARM_START_INTENSITY + repeat * ALARM_INTENSITY_STEP)
+      const played = playSound(settingsRef.current.sound, settingsRef.current.volume, { intensity })
+      if (!played && repeat === 0) {
+        console.warn('🔇 Alarm is silent - audio is locked until someone taps the timer controls')
+      }
+      const gapMs = Math.max(ALARM_MIN_GAP_MS, ALARM_START_GAP_MS - repeat * ALARM_GAP_STEP_MS)
+      repeat++
+      timeoutId = window.setTimeout(ring, gapMs)
+    }
+
+    ring()
+    return () => {
+      console.log('🔕 Alarm stopped:', ringingKey)
+      window.clearTimeout(timeoutId)
+    }
+  }, [ringingKey])
+
+  // Softer tone when a running timer crosses a warning threshold
+  useEffect(() => {
+    const newEvents = warnings.events.filter((event) => event.firedAt > lastWarningAtRef.current)
+    if (newEvents.length === 0) return
+
+    lastWarningAtRef.current = Math.max(...newEvents.map((event) => event.firedAt))
+    playSound(settings.sound, settings.volume, { isWarning: true })
+  }, [warnings.events])
+
+  return null
+}
+
+// Connect the AlarmPlayer component to Redux Zero
+export const AlarmPlayer = connect(
+  ({ timers, warnings, ui }: AppState) => ({ timers, warnings, ui })
+)(AlarmPlayerComponent)
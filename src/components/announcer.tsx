@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import { formatAnnouncement, speak } from '../audio/speech'
+import { useDeviceSettings } from '../contexts/device-settings-context'
+import { getRemainingMs, getRemainingSeconds } from '../store'
+import type { AppState } from '../store'
+
+interface AnnouncerProps {
+  // Redux Zero props
+  timers: AppState['timers']
+  currentTime: number
+}
+
+// An announcement is only made if the dial passed its point just now (not when time was removed past it)
+const MAX_ANNOUNCEMENT_LAG_SECONDS = 2
+
+// Speaks "5 minutes left" / "time's up" for every timer in the room on devices that opted in (renders nothing)
+function AnnouncerComponent({ timers, currentTime }: AnnouncerProps) {
+  const { settings } = useDeviceSettings()
+  // Remaining seconds last seen per timer, so each point is spoken once as the dial passes it
+  const lastSeenRef = useRef<Record<string, { runStartedAt: number | null, remainingSeconds: number }>>({})
+
+  useEffect(() => {
+    const lastSeen = lastSeenRef.current
+
+    Object.values(timers).forEach((timer) => {
+      if (timer.mode === 'stopwatch') return
+
+      // Same remaining-time logic as the dial
+      const remainingSeconds = getRemainingSeconds(getRemainingMs(timer, currentTime))
+      const previous = lastSeen[timer.id]
+      lastSeen[timer.id] = { runStartedAt: timer.runStartedAt, remainingSeconds }
+
+      // Nothing to compare against yet (page just loaded, or a new run/step started)
+      if (!settings.speechEnabled || !previous || previous.runStartedAt !== timer.runStartedAt) return
+      if (remainingSeconds >= previous.remainingSeconds) return
+
+      let announceSeconds: number | undefined
+      if (remainingSeconds === 0 && timer.isComplete) {
+        announceSeconds = 0
+      } else if (timer.isRunning) {
+        announceSeconds = settings.announceAtSeconds
+          .filter((seconds) => seconds < previous.remainingSeconds && seconds >= remainingSeconds)
+          .sort((a, b) => a - b)[0]
+      }
+      if (announceSeconds === undefined || announceSeconds - remainingSeconds > MAX_ANNOUNCEMENT_LAG_SECONDS) return
+
+      speak(
+        formatAnnouncement(settings.speechPhrases, timer.label, announceSeconds),
+        settings.speechLanguage,
+        settings.volume
+      )
+    })
+  }, [timers, currentTime])
+
+  return null
+}
+
+// Connect the Announcer component to Redux Zero
+export const Announcer = connect(
+  ({ timers, ui }: AppState) => ({ timers, currentTime: ui.currentTime })
+)(AnnouncerComponent)
@@ -1,29 +1,67 @@
+import { useState } from 'preact/hooks'
 import { connect } from 'redux-zero/preact'
 import { Timer } from './timer'
+import { TimerTabs } from './timer-tabs'
+import { AlarmPlayer } from './alarm-player'
+import { Announcer } from './announcer'
+import { Notifier } from './notifier'
+import { SettingsDialog } from './settings-dialog'
+import { DiagnosticsDialog } from './diagnostics-dialog'
+import { UpdatePrompt } from './update-prompt'
+import { RoomSwitcher } from './room-switcher'
+import { ShareDialog } from './share-dialog'
+import { DeviceList } from './device-list'
+import { DisplayOfflineAlert } from './display-offline-alert'
+import { RejectedMessagesAlert } from './rejected-messages-alert'
 import { useTheme } from '../contexts/theme-context'
-import { TIMER_CHANNEL } from '../config/config'
+import { useParentalLock } from '../contexts/parental-lock-context'
 import { Container, Typography, Box, Chip, IconButton, Tooltip } from '@mui/material'
 import { 
   FiberManualRecord as FiberManualRecordIcon,
   LightMode as LightModeIcon,
-  DarkMode as DarkModeIcon
+  DarkMode as DarkModeIcon,
+  Lock as LockIcon,
+  LockOpen as LockOpenIcon,
+  Settings as SettingsIcon,
+  Share as ShareIcon
 } from '@mui/icons-material'
-import type { AppState } from '../store'
+import { getActiveWarning } from '../store'
+import { getRoomChannel } from '../store/rooms'
+import type { AppState, TimerState, WarningEvent } from '../store'
 
 interface AppContentProps {
-  timer: AppState['timer']
+  timer: TimerState
+  warning: WarningEvent | undefined
   ui: AppState['ui']
 }
 
-function AppContentComponent({ timer, ui }: AppContentProps) {
+function AppContentComponent({ timer, warning, ui }: AppContentProps) {
   const { mode, toggleTheme } = useTheme()
+  const { hasPin, isLocked, requireUnlock, lockNow } = useParentalLock()
+  const [isSettingsOpen, setSettingsOpen] = useState(false)
+  const [isDiagnosticsOpen, setDiagnosticsOpen] = useState(false)
+  const [isShareOpen, setShareOpen] = useState(false)
 
-  // Create background with subtle tinting based on timer state from Redux store
+  // Create background with subtle tinting based on the active timer's state from Redux store
   const getBackgroundGradient = () => {
+    // Break phases of an interval cycle get their own tint while running
+    const breakPhase = timer.isRunning && timer.mode === 'interval' && timer.interval?.phase !== 'work'
+      ? timer.interval?.phase
+      : undefined
+
     if (mode === 'light') {
       if (timer.isComplete) {
         // Blue tint for completed state
         return 'linear-gradient(135deg, #f8faff 0%, #e6f3ff 100%)'
+      } else if (warning) {
+        // Amber tint while a time-remaining warning is showing
+        return 'linear-gradient(135deg, #fffbf0 0%, #fff1d6 100%)'
+      } else if (breakPhase === 'shortBreak') {
+        // Green tint for a short break
+        return 'linear-gradient(135deg, #f6fff8 0%, #e3f9e9 100%)'
+      } else if (breakPhase === 'longBreak') {
+        // Purple tint for the long break
+        return 'linear-gradient(135deg, #faf7ff 0%, #efe6ff 100%)'
       } else if (timer.isRunning) {
         // Red tint for running state  
         return 'linear-gradient(135deg, #fff8f8 0%, #ffe6e6 100%)'
@@ -38,6 +76,15 @@ function AppContentComponent({ timer, ui }: AppContentProps) {
       if (timer.isComplete) {
         // Blue tint for completed state (dark mode)
         return 'linear-gradient(135deg, #0f1621 0%, #1a1f3a 100%)'
+      } else if (warning) {
+        // Amber tint while a time-remaining warning is showing (dark mode)
+        return 'linear-gradient(135deg, #1a160f 0%, #2e241a 100%)'
+      } else if (breakPhase === 'shortBreak') {
+        // Green tint for a short break (dark mode)
+        return 'linear-gradient(135deg, #0f1a14 0%, #1a2e20 100%)'
+      } else if (breakPhase === 'longBreak') {
+        // Purple tint for the long break (dark mode)
+        return 'linear-gradient(135deg, #16101f 0%, #251a3a 100%)'
       } else if (timer.isRunning) {
         // Red tint for running state (dark mode)
         return 'linear-gradient(135deg, #1a0f14 0%, #2e1a1f 100%)'
@@ -51,6 +98,15 @@ function AppContentComponent({ timer, ui }: AppContentProps) {
     }
   }
 
+  // Sync status, including local changes that haven't reached the other devices yet
+  const getSyncLabel = () => {
+    const changes = `${ui.pendingSyncCount} unsynced change${ui.pendingSyncCount === 1 ? '' : 's'}`
+    if (ui.pendingSyncCount > 0) {
+      return ui.isConnected ? `Syncing ${changes}...` : `Offline - ${changes}`
+    }
+    return ui.isConnected ? 'Synced with all users' : 'Connecting...'
+  }
+
   return (
     <Container 
       maxWidth={false}
@@ -134,6 +190,28 @@ function AppContentComponent({ timer, ui }: AppContentProps) {
               {mode === 'light' ? <LightModeIcon /> : <DarkModeIcon />}
             </IconButton>
           </Tooltip>
+          {/* Parental lock: tap to lock again, or to enter the PIN */}
+          {hasPin && (
+            <Tooltip title={isLocked ? 'Locked - tap to enter the PIN' : 'Unlocked - tap to lock'}>
+              <IconButton
+                onClick={() => isLocked ? requireUnlock(() => {}) : lockNow()}
+                sx={{ color: isLocked ? 'text.primary' : 'warning.main' }}
+                aria-label={isLocked ? 'Unlock controls' : 'Lock controls'}
+              >
+                {isLocked ? <LockIcon /> : <LockOpenIcon />}
+              </IconButton>
+            </Tooltip>
+          )}
+          <Tooltip title="Settings for this device">
+            <IconButton 
+              onClick={() => setSettingsOpen(true)}
+              sx={{ color: 'text.primary' }}
+              aria-label="Settings for this device"
+            >
+              <SettingsIcon />
+            </IconButton>
+          </Tooltip>
+          <SettingsDialog open={isSettingsOpen} onClose={() => setSettingsOpen(false)} />
         </Box>
         
         <Typography 
@@ -150,28 +228,56 @@ function AppContentComponent({ timer, ui }: AppContentProps) {
           Kid Timer
         </Typography>
         
-        <Tooltip title={`PubNub Channel: ${TIMER_CHANNEL}`}>
-          <Chip
-            icon={<FiberManualRecordIcon sx={{ fontSize: '8px !important' }} />}
-            label={ui.isConnected ? 'Synced with all users' : 'Connecting...'}
-            color={ui.isConnected ? 'success' : 'error'}
-            variant="outlined"
-            size="small"
-            sx={{
-              '& .MuiChip-icon': {
-                animation: ui.isConnected ? 'pulse 2s infinite' : 'none',
-              },
-              '@keyframes pulse': {
-                '0%, 100%': { opacity: 1 },
-                '50%': { opacity: 0.5 },
-              },
-              '@media (max-height:600px) and (orientation: landscape)': {
-                fontSize: '0.7rem',
-                height: '20px',
-              },
-            }}
-          />
-        </Tooltip>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+          <RoomSwitcher />
+          <Tooltip title={ui.pendingSyncCount > 0
+            ? 'Changes made on this device are saved and will be sent when the connection returns'
+            : `Sync channel: ${getRoomChannel(ui.roomId)} - tap for sync diagnostics`}
+          >
+            <Chip
+              icon={<FiberManualRecordIcon sx={{ fontSize: '8px !important' }} />}
+              label={getSyncLabel()}
+              onClick={() => setDiagnosticsOpen(true)}
+              color={ui.pendingSyncCount > 0 ? 'warning' : ui.isConnected ? 'success' : 'error'}
+              variant="outlined"
+              size="small"
+              sx={{
+                '& .MuiChip-icon': {
+                  animation: ui.isConnected ? 'pulse 2s infinite' : 'none',
+                },
+                '@keyframes pulse': {
+                  '0%, 100%': { opacity: 1 },
+                  '50%': { opacity: 0.5 },
+                },
+                '@media (max-height:600px) and (orientation: landscape)': {
+                  fontSize: '0.7rem',
+                  height: '20px',
+                },
+              }}
+            />
+          </Tooltip>
+          <DeviceList />
+          <Tooltip title="Share this room with another device">
+            <IconButton
+              size="small"
+              onClick={() => setShareOpen(true)}
+              aria-label="Share this room with another device"
+              sx={{
+                '@media (max-height:600px) and (orientation: landscape)': {
+                  p: 0.25,
+                },
+              }}
+            >
+              <ShareIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+        <DiagnosticsDialog open={isDiagnosticsOpen} onClose={() => setDiagnosticsOpen(false)} />
+        <ShareDialog open={isShareOpen} onClose={() => setShareOpen(false)} />
+        <DisplayOfflineAlert />
+        <RejectedMessagesAlert />
+
+        <TimerTabs />
       </Box>
       
       {/* Timer Section - Takes remaining space */}
@@ -189,7 +295,7 @@ function AppContentComponent({ timer, ui }: AppContentProps) {
           },
         }}
       >
-        <Timer initialMinutes={5} />
+        <Timer timerId={timer.id} initialMinutes={5} />
       </Box>
     </Container>
   )
@@ -197,9 +303,21 @@ function AppContentComponent({ timer, ui }: AppContentProps) {
 
 // Connect the AppContent component to Redux Zero
 const AppContent = connect(
-  ({ timer, ui }: AppState) => ({ timer, ui })
+  ({ timers, warnings, ui }: AppState) => ({
+    timer: timers[ui.activeTimerId],
+    warning: getActiveWarning(warnings, timers[ui.activeTimerId]),
+    ui
+  })
 )(AppContentComponent)
 
 export function App() {
-  return <AppContent />
+  return (
+    <>
+      <AppContent />
+      <AlarmPlayer />
+      <Announcer />
+      <Notifier />
+      <UpdatePrompt />
+    </>
+  )
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+import { useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Chip,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Popover,
+  Select,
+  Tooltip,
+  Typography
+} from '@mui/material'
+import {
+  Devices as DevicesIcon,
+  FiberManualRecord as FiberManualRecordIcon,
+  Smartphone as SmartphoneIcon,
+  Tv as TvIcon
+} from '@mui/icons-material'
+import { DEVICE_ID, DEVICE_KEY, PUBNUB_CONFIG } from '../config/config'
+import { useParentalLock } from '../contexts/parental-lock-context'
+import actions from '../store/actions'
+import { formatLastSeen } from '../store/devices'
+import { canDeviceControl, getDeviceRole, isAwaitingKey } from '../store/roles'
+import type { DeviceRole } from '../store/roles'
+import { getOfflineDisplays } from '../store'
+import type { AppState } from '../store'
+import type { RoomDevice } from '../store/devices'
+
+interface DeviceListProps {
+  // Redux Zero props
+  ui: AppState['ui']
+  roles: AppState['roles']
+  hasOfflineDisplay: boolean
+  setDeviceRole: (deviceId: string, role: DeviceRole) => void
+}
+
+// Online devices first, then the most recently seen
+const sortDevices = (devices: RoomDevice[]) =>
+  [...devices].sort((a, b) => Number(b.isOnline) - Number(a.isOnline) || b.lastSeenAt - a.lastSeenAt || a.name.localeCompare(b.name))
+
+// How many devices are in the room, with a popover listing each one, when it was last seen and its role.
+// Only a controller can change roles
+function DeviceListComponent({ ui, roles, hasOfflineDisplay, setDeviceRole }: DeviceListProps) {
+  const { requireUnlock } = useParentalLock()
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null)
+
+  const devices = sortDevices(Object.values(ui.devices))
+  const onlineCount = devices.filter((device) => device.isOnline).length
+  const canControl = canDeviceControl(roles, DEVICE_ID, DEVICE_KEY)
+
+  return (
+    <>
+      <Tooltip title={hasOfflineDisplay ? "The kid's display is offline" : 'Devices in this room'}>
+        <Chip
+          icon={<DevicesIcon />}
+          label={`${onlineCount} device${onlineCount === 1 ? '' : 's'}`}
+          onClick={(event: any) => setAnchor(event.currentTarget)}
+          color={hasOfflineDisplay ? 'warning' : 'default'}
+          variant="outlined"
+          size="small"
+          aria-label={`${onlineCount} devices online - show device list`}
+          sx={{
+            '@media (max-height:600px) and (orientation: landscape)': {
+              fontSize: '0.7rem',
+              height: '20px',
+            },
+          }}
+        />
+      </Tooltip>
+
+      <Popover
+        open={anchor !== null}
+        anchorEl={anchor}
+        onClose={() => setAnchor(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+        transformOrigin={{ vertical: 'top', horizontal: 'center' }}
+      >
+        <List dense sx={{ minWidth: 320 }}>
+          {devices.map((device) => {
+            const role = getDeviceRole(roles, device.deviceId)
+            const status = device.isOnline ? 'Online' : `Last seen ${formatLastSeen(device.lastSeenAt, ui.currentTime)}`
+            return (
+              <ListItem key={device.clientId}>
+                <ListItemIcon>
+                  {role === 'display' ? <TvIcon fontSize="small" /> : <SmartphoneIcon fontSize="small" />}
+                </ListItemIcon>
+                <ListItemText
+                  primary={`${device.name}${device.clientId === PUBNUB_CONFIG.userId ? ' (this device)' : ''}`}
+                  secondary={isAwaitingKey(roles, device.deviceId) ? `${status} - new, view only until made a controller` : status}
+                />
+                <Select
+                  value={role}
+                  onChange={(event: any) => {
+                    const newRole = event.target.value as DeviceRole
+                    requireUnlock(() => setDeviceRole(device.deviceId, newRole))
+                  }}
+                  disabled={!canControl}
+                  size="small"
+                  variant="standard"
+                  inputProps={{ 'aria-label': `Role of ${device.name}` }}
+                  sx={{ ml: 1, fontSize: '0.8rem' }}
+                >
+                  <MenuItem value="controller">Controller</MenuItem>
+                  <MenuItem value="display">Kid's display</MenuItem>
+                </Select>
+                <FiberManualRecordIcon
+                  sx={{ fontSize: 10, ml: 1 }}
+                  color={device.isOnline ? 'success' : role === 'display' ? 'warning' : 'disabled'}
+                />
+              </ListItem>
+            )
+          })}
+        </List>
+        {!ui.isConnected && (
+          <Typography variant="caption" color="text.secondary" component="p" sx={{ px: 2, pb: 1 }}>
+            This device is offline, so the list may be out of date
+          </Typography>
+        )}
+        <Typography variant="caption" color="text.secondary" component="p" sx={{ px: 2, pb: 1.5 }}>
+          {canControl
+            ? 'Displays only show the timers - name this device in Settings'
+            : 'This device is a display - roles are changed from a controller'}
+        </Typography>
+      </Popover>
+    </>
+  )
+}
+
+// Connect the DeviceList component to Redux Zero
+export const DeviceList = connect(
+  ({ timers, roles, ui }: AppState) => ({
+    ui,
+    roles,
+    hasOfflineDisplay: getOfflineDisplays(ui, timers, roles).length > 0
+  }),
+  actions
+)(DeviceListComponent)
@@ -0,0 +1,108 @@
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow
+} from '@mui/material'
+import { DEVICE_ID, PUBNUB_CONFIG, SYNC_CONFIG } from '../config/config'
+import { getDeviceRole } from '../store/roles'
+import { isEncryptionAvailable } from '../security/encryption'
+import { hasWebCrypto } from '../security/signing'
+import { getRoomChannel } from '../store/rooms'
+import type { AppState } from '../store'
+
+interface DiagnosticsDialogProps {
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  ui: AppState['ui']
+  roles: AppState['roles']
+}
+
+const TIME_SOURCE_LABELS: Record<string, string> = {
+  pubnub: 'PubNub time service',
+  local: 'Local clock (for testing)',
+  device: 'Not measured yet',
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' })
+
+// Describe the offset from this device's point of view, e.g. "40.0 s behind"
+const formatOffset = (offsetMs: number) => {
+  if (Math.abs(offsetMs) < 50) return 'In step'
+  const seconds = (Math.abs(offsetMs) / 1000).toFixed(1)
+  return `${seconds} s ${offsetMs > 0 ? 'behind' : 'ahead'} (${offsetMs > 0 ? '+' : ''}${offsetMs} ms applied)`
+}
+
+// How many messages failed the signature check (or couldn't be decrypted), and why the last one did
+const formatRejections = (quarantine: AppState['ui']['quarantine']) => {
+  const last = quarantine.messages[quarantine.messages.length - 1]
+  return last
+    ? `${quarantine.total} (last: ${last.reason}, from ${last.source} at ${formatTimestamp(last.receivedAt)})`
+    : '0'
+}
+
+// Whether this device encrypts the room's messages
+const formatEncryption = (roomKey: string | null) => {
+  if (!roomKey) return 'Off'
+  return isEncryptionAvailable() ? 'On (room passphrase)' : 'Key set, but needs HTTPS - not publishing'
+}
+
+// Sync details for troubleshooting devices that disagree about the time
+function DiagnosticsDialogComponent({ open, onClose, ui, roles }: DiagnosticsDialogProps) {
+  const { clock } = ui
+  // ui.currentTime is on the shared clock; take the offset back out for the device's own clock
+  const rows: [string, string][] = [
+    ['Time source', TIME_SOURCE_LABELS[clock.source] ?? clock.source],
+    ["This device's clock", formatOffset(clock.offsetMs)],
+    ['Accuracy', clock.roundTripMs !== null ? `± ${Math.ceil(clock.roundTripMs / 2)} ms` : '—'],
+    ['Last measured', clock.measuredAt !== null ? formatTimestamp(clock.measuredAt) : '—'],
+    ['Device time', formatTimestamp(ui.currentTime - clock.offsetMs)],
+    ['Shared time', formatTimestamp(ui.currentTime)],
+    ['Transport', SYNC_CONFIG.transport],
+    ['Connection', ui.isConnected ? 'Connected' : 'Offline'],
+    ['Unsynced changes', String(ui.pendingSyncCount)],
+    ['Message signing', hasWebCrypto() ? 'On (room secret)' : 'On (room secret, signed with @noble/hashes - no WebCrypto over HTTP)'],
+    ['Encryption', formatEncryption(ui.roomKey)],
+    ['Rejected messages', formatRejections(ui.quarantine)],
+    ['Room', ui.roomId],
+    ['Channel', getRoomChannel(ui.roomId)],
+    ['Device id', DEVICE_ID],
+    ['Device name', ui.device.name],
+    ['Role', getDeviceRole(roles, DEVICE_ID) === 'display' ? "Kid's display (view only)" : 'Controller'],
+    ['Client id', PUBNUB_CONFIG.userId], // This device, as seen in presence
+  ]
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Sync diagnostics</DialogTitle>
+      <DialogContent>
+        <Table size="small">
+          <TableBody>
+            {rows.map(([label, value]) => (
+              <TableRow key={label}>
+                <TableCell component="th" scope="row">{label}</TableCell>
+                <TableCell align="right">{value}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the DiagnosticsDialog component to Redux Zero
+export const DiagnosticsDialog = connect(
+  ({ ui, roles }: AppState) => ({ ui, roles })
+)(DiagnosticsDialogComponent)
@@ -0,0 +1,36 @@
+import { connect } from 'redux-zero/preact'
+import { Alert } from '@mui/material'
+import { formatLastSeen } from '../store/devices'
+import { getOfflineDisplays } from '../store'
+import type { AppState } from '../store'
+import type { RoomDevice } from '../store/devices'
+
+interface DisplayOfflineAlertProps {
+  // Redux Zero props
+  offlineDisplays: RoomDevice[]
+  currentTime: number
+}
+
+// Warns the parents when the kid's display drops out of the room while a timer is running,
+// since the kid can no longer see how much time is left
+function DisplayOfflineAlertComponent({ offlineDisplays, currentTime }: DisplayOfflineAlertProps) {
+  if (offlineDisplays.length === 0) return null
+
+  return (
+    <Alert severity="warning" sx={{ mt: 1, mx: 'auto', maxWidth: 480, textAlign: 'left' }}>
+      {offlineDisplays.map((device) => (
+        <div key={device.clientId}>
+          The kid's display "{device.name}" went offline {formatLastSeen(device.lastSeenAt, currentTime)} while a timer is running
+        </div>
+      ))}
+    </Alert>
+  )
+}
+
+// Connect the DisplayOfflineAlert component to Redux Zero
+export const DisplayOfflineAlert = connect(
+  ({ timers, roles, ui }: AppState) => ({
+    offlineDisplays: getOfflineDisplays(ui, timers, roles),
+    currentTime: ui.currentTime
+  })
+)(DisplayOfflineAlertComponent)
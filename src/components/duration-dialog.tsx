@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  Typography
+} from '@mui/material'
+import { Backspace as BackspaceIcon } from '@mui/icons-material'
+import actions from '../store/actions'
+import type { AppState, TimerState } from '../store'
+
+interface DurationDialogProps {
+  timerId: string
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  timer: TimerState
+  setDuration: (timerId: string, durationMs: number) => void
+}
+
+// Recently used durations are remembered per device
+const RECENT_DURATIONS_KEY = 'recent-durations'
+const MAX_RECENT_DURATIONS = 6
+
+// Keypad entry fills HHMMSS from the right, like a microwave
+const MAX_DIGITS = 6
+
+const loadRecentDurations = (): number[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_DURATIONS_KEY) ?? '[]')
+    return Array.isArray(saved) ? saved.filter((ms) => Number.isFinite(ms) && ms > 0) : []
+  } catch {
+    return []
+  }
+}
+
+const saveRecentDuration = (durationMs: number) => {
+  const recent = [durationMs, ...loadRecentDurations().filter((ms) => ms !== durationMs)].slice(0, MAX_RECENT_DURATIONS)
+  localStorage.setItem(RECENT_DURATIONS_KEY, JSON.stringify(recent))
+}
+
+// Split typed digits into hours, minutes and seconds (minutes/seconds may exceed 59, e.g. 90s)
+const parseDigits = (digits: string) => {
+  const padded = digits.padStart(MAX_DIGITS, '0')
+  return {
+    hours: Number(padded.slice(0, 2)),
+    minutes: Number(padded.slice(2, 4)),
+    seconds: Number(padded.slice(4, 6))
+  }
+}
+
+// Format a duration for a chip, e.g. "30s", "5m", "1h 30m", "2m 15s"
+const formatDurationLabel = (durationMs: number) => {
+  const totalSeconds = Math.round(durationMs / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+
+  return [
+    hours > 0 ? `${hours}h` : '',
+    minutes > 0 ? `${minutes}m` : '',
+    seconds > 0 || totalSeconds === 0 ? `${seconds}s` : ''
+  ].filter(Boolean).join(' ')
+}
+
+const KEYPAD_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '00', '0']
+
+function DurationDialogComponent({
+  timerId,
+  open,
+  onClose,
+  timer,
+  setDuration
+}: DurationDialogProps) {
+  const [digits, setDigits] = useState('')
+  const [recentDurations, setRecentDurations] = useState<number[]>([])
+
+  // Start from a blank keypad and fresh recent list whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setDigits('')
+    setRecentDurations(loadRecentDurations())
+  }, [open])
+
+  const { hours, minutes, seconds } = parseDigits(digits)
+  const durationMs = ((hours * 60 + minutes) * 60 + seconds) * 1000
+
+  const pressKey = (key: string) => {
+    // Leading zeros don't take up room
+    setDigits((current) => (current + key).replace(/^0+/, '').slice(0, MAX_DIGITS))
+  }
+
+  const pressBackspace = () => setDigits((current) => current.slice(0, -1))
+
+  const applyDuration = (ms: number) => {
+    if (ms <= 0) return
+
+    console.log('⏲️ Setting duration via Redux action:', formatDurationLabel(ms))
+    setDuration(timerId, ms)
+    saveRecentDuration(ms)
+    onClose()
+  }
+
+  // Physical keyboards can type straight into the keypad
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (/^[0-9]$/.test(event.key)) {
+      pressKey(event.key)
+    } else if (event.key === 'Backspace') {
+      pressBackspace()
+    } else if (event.key === 'Enter') {
+      applyDuration(durationMs)
+    } else {
+      return
+    }
+    event.preventDefault()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} onKeyDown={handleKeyDown} fullWidth maxWidth="xs">
+      <DialogTitle>Set time</DialogTitle>
+      <DialogContent>
+        <Typography
+          variant="h3"
+          component="div"
+          aria-live="polite"
+          sx={{
+            textAlign: 'center',
+            fontFamily: 'Courier New, monospace',
+            fontWeight: 'bold',
+            color: digits ? 'text.primary' : 'text.disabled',
+            mb: 2,
+          }}
+        >
+          {String(hours).padStart(2, '0')}
+          <Typography component="span" variant="h6">h </Typography>
+          {String(minutes).padStart(2, '0')}
+          <Typography component="span" variant="h6">m </Typography>
+          {String(seconds).padStart(2, '0')}
+          <Typography component="span" variant="h6">s</Typography>
+        </Typography>
+
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(3, 1fr)',
+            gap: 1,
+          }}
+        >
+          {KEYPAD_KEYS.map((key) => (
+            <Button key={key} variant="outlined" size="large" onClick={() => pressKey(key)}>
+              {key}
+            </Button>
+          ))}
+          <Button variant="outlined" size="large" onClick={pressBackspace} disabled={!digits} aria-label="Delete last digit">
+            <BackspaceIcon />
+          </Button>
+        </Box>
+
+        {recentDurations.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+              Recent
+            </Typography>
+            <Stack direction="row" flexWrap="wrap" sx={{ gap: 1 }}>
+              {recentDurations.map((ms) => (
+                <Chip
+                  key={ms}
+                  label={formatDurationLabel(ms)}
+                  onClick={() => applyDuration(ms)}
+                  color={ms === timer.durationMs ? 'primary' : 'default'}
+                  variant="outlined"
+                />
+              ))}
+            </Stack>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={() => applyDuration(durationMs)} disabled={durationMs <= 0}>
+          Set
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the DurationDialog component to Redux Zero, selecting the timer by id
+export const DurationDialog = connect(
+  ({ timers }: AppState, { timerId }: { timerId: string }) => ({ timer: timers[timerId] }),
+  actions
+)(DurationDialogComponent)
@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField
+} from '@mui/material'
+import actions from '../store/actions'
+import { DEFAULT_INTERVAL } from '../store'
+import type { AppState, IntervalState, TimerState } from '../store'
+
+interface IntervalDialogProps {
+  timerId: string
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  timer: TimerState
+  setIntervalCycle: (timerId: string, cycle: Pick<IntervalState, 'workMs' | 'shortBreakMs' | 'longBreakMs' | 'rounds'>) => void
+}
+
+// Fields are edited as text so partially typed numbers don't get mangled
+interface CycleDraft {
+  workMinutes: string
+  shortBreakMinutes: string
+  longBreakMinutes: string
+  rounds: string
+}
+
+const toDraft = (interval: IntervalState): CycleDraft => ({
+  workMinutes: String(interval.workMs / (60 * 1000)),
+  shortBreakMinutes: String(interval.shortBreakMs / (60 * 1000)),
+  longBreakMinutes: String(interval.longBreakMs / (60 * 1000)),
+  rounds: String(interval.rounds)
+})
+
+const parsePositive = (value: string) => {
+  const number = parseFloat(value)
+  return Number.isFinite(number) && number > 0 ? number : 0
+}
+
+function IntervalDialogComponent({
+  timerId,
+  open,
+  onClose,
+  timer,
+  setIntervalCycle
+}: IntervalDialogProps) {
+  const [draft, setDraft] = useState<CycleDraft>(toDraft(DEFAULT_INTERVAL))
+
+  // Load the timer's current cycle whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(timer.interval ?? DEFAULT_INTERVAL))
+    }
+  }, [open]) // Not timer.interval - a phase switching elsewhere shouldn't wipe the draft
+
+  const updateDraft = (changes: Partial<CycleDraft>) => setDraft({ ...draft, ...changes })
+
+  const rounds = Math.floor(parsePositive(draft.rounds))
+  const isValid = parsePositive(draft.workMinutes) > 0 &&
+    parsePositive(draft.shortBreakMinutes) > 0 &&
+    parsePositive(draft.longBreakMinutes) > 0 &&
+    rounds >= 1
+
+  const handleSave = () => {
+    if (!isValid) return
+
+    const cycle = {
+      workMs: Math.round(parsePositive(draft.workMinutes) * 60 * 1000),
+      shortBreakMs: Math.round(parsePositive(draft.shortBreakMinutes) * 60 * 1000),
+      longBreakMs: Math.round(parsePositive(draft.longBreakMinutes) * 60 * 1000),
+      rounds
+    }
+    console.log('🍅 Setting interval cycle via Redux action:', cycle)
+    setIntervalCycle(timerId, cycle)
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Work / break cycle</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Work (minutes)"
+            type="number"
+            value={draft.workMinutes}
+            onChange={(event: any) => updateDraft({ workMinutes: event.target.value })}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          <TextField
+            label="Break (minutes)"
+            type="number"
+            value={draft.shortBreakMinutes}
+            onChange={(event: any) => updateDraft({ shortBreakMinutes: event.target.value })}
+            inputProps={{ min: 0, step: 1 }}
+          />
+          <TextField
+            label="Rounds before long break"
+            type="number"
+            value={draft.rounds}
+            onChange={(event: any) => updateDraft({ rounds: event.target.value })}
+            inputProps={{ min: 1, step: 1 }}
+          />
+          <TextField
+            label="Long break (minutes)"
+            type="number"
+            value={draft.longBreakMinutes}
+            onChange={(event: any) => updateDraft({ longBreakMinutes: event.target.value })}
+            inputProps={{ min: 0, step: 1 }}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!isValid}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the IntervalDialog component to Redux Zero, selecting the timer by id
+export const IntervalDialog = connect(
+  ({ timers }: AppState, { timerId }: { timerId: string }) => ({ timer: timers[timerId] }),
+  actions
+)(IntervalDialogComponent)
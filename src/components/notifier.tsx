@@ -0,0 +1,150 @@
+import { useEffect, useRef } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import { useDeviceSettings } from '../contexts/device-settings-context'
+import { formatTimeLeft } from './timer'
+import { useParentalLock } from '../contexts/parental-lock-context'
+import actions from '../store/actions'
+import { DEVICE_ID, DEVICE_KEY } from '../config/config'
+import { canDeviceControl } from '../store/roles'
+import { clockNow } from '../store/clock'
+import type { AppState } from '../store'
+
+interface NotifierProps {
+  // Redux Zero props
+  timers: AppState['timers']
+  warnings: AppState['warnings']
+  canControl: boolean // A display's notifications can't add time
+  addTime: (timerId: string, minutes: number) => void
+  acknowledgeCompletion: (timerId: string) => void
+  setActiveTimer: (timerId: string) => void
+}
+
+// Completions older than this (e.g. found in history when the page loads) aren't notified
+const MAX_NOTIFY_AGE_MS = 10 * 60 * 1000
+
+// Minutes the "+5 min" notification button adds
+const NOTIFICATION_ADD_MINUTES = 5
+
+// Completions already notified, shared by every tab on this device so each completion is notified once
+const NOTIFIED_KEY = 'notified-completions'
+const MAX_NOTIFIED = 50
+
+export const areNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window
+
+// Remember a completion as notified; returns false if this device already notified it
+const claimCompletion = (key: string) => {
+  let notified: string[] = []
+  try {
+    notified = JSON.parse(localStorage.getItem(NOTIFIED_KEY) ?? '[]')
+  } catch {
+    // Start over if the saved list is unreadable
+  }
+  if (notified.includes(key)) return false
+
+  localStorage.setItem(NOTIFIED_KEY, JSON.stringify([...notified, key].slice(-MAX_NOTIFIED)))
+  return true
+}
+
+// Show a notification, with Acknowledge / +5 min buttons when a service worker can handle them
+const showNotification = async (title: string, options: NotificationOptions & { actions?: { action: string, title: string }[] }) => {
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+
+  if (registration) {
+    await registration.showNotification(title, options)
+  } else {
+    // Plain notifications can't have buttons - clicking just brings the app forward
+    const notification = new Notification(title, options)
+    notification.onclick = () => {
+      window.focus()
+      notification.close()
+    }
+  }
+}
+
+// Shows system notifications for completions and warnings while the app is in the background (renders nothing)
+function NotifierComponent({ timers, warnings, canControl, addTime, acknowledgeCompletion, setActiveTimer }: NotifierProps) {
+  const { settings } = useDeviceSettings()
+  const { requireUnlock } = useParentalLock()
+  // Only warnings noticed after the page loaded are notified
+  const lastWarningAtRef = useRef(clockNow())
+
+  const canNotify = () =>
+    settings.notificationsEnabled &&
+    areNotificationsSupported() &&
+    Notification.permission === 'granted' &&
+    document.visibilityState !== 'visible' // In front of someone, the app itself is enough
+
+  // Completion: once per completion per device, no matter which device (or tab) auto-stopped it.
+  // Completions seen while the app is in front are claimed too, so they aren't notified later
+  useEffect(() => {
+    Object.values(timers).forEach((timer) => {
+      if (!timer.isComplete || timer.endTime === null || clockNow() - timer.endTime > MAX_NOTIFY_AGE_MS) return
+      if (!claimCompletion(`${timer.id}@${timer.endTime}`) || !canNotify()) return
+
+      console.log('🔔 Notifying completion:', timer.id)
+      showNotification(`${timer.label}: time's up!`, {
+        body: 'Tap to open the timer',
+        tag: `complete-${timer.id}`, // Replaces an older notification for the same timer
+        requireInteraction: true,
+        data: { timerId: timer.id },
+        actions: [
+          { action: 'acknowledge', title: 'Acknowledge' },
+          ...(canControl ? [{ action: 'add-time', title: `+${NOTIFICATION_ADD_MINUTES} min` }] : []),
+        ],
+      }).catch((error) => console.error('Failed to show notification:', error))
+    })
+  }, [timers])
+
+  // Warning thresholds
+  useEffect(() => {
+    const newEvents = warnings.events.filter((event) => event.firedAt > lastWarningAtRef.current)
+    if (newEvents.length === 0) return
+
+    lastWarningAtRef.current = Math.max(...newEvents.map((event) => event.firedAt))
+    if (!canNotify()) return
+
+    newEvents.forEach((event) => {
+      const timer = timers[event.timerId]
+      if (!timer) return
+
+      showNotification(`${timer.label}: ${formatTimeLeft(event.thresholdMs)}`, {
+        tag: `warning-${timer.id}`,
+        data: { timerId: timer.id },
+      }).catch((error) => console.error('Failed to show notification:', error))
+    })
+  }, [warnings.events])
+
+  // Buttons pressed on a notification arrive from the service worker
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'notification-action' || typeof event.data.timerId !== 'string') return
+
+      const { action, timerId } = event.data
+      console.log('🔔 Notification action:', action, timerId)
+      setActiveTimer(timerId)
+      if (action === 'acknowledge') {
+        acknowledgeCompletion(timerId)
+      } else if (action === 'add-time') {
+        // Opens the PIN dialog first when the device is locked
+        requireUnlock(() => addTime(timerId, NOTIFICATION_ADD_MINUTES))
+      }
+    }
+
+    navigator.serviceWorker.addEventListener('message', handleMessage)
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage)
+  }, [addTime, acknowledgeCompletion, setActiveTimer, requireUnlock])
+
+  return null
+}
+
+// Connect the Notifier component to Redux Zero
+export const Notifier = connect(
+  ({ timers, roles, warnings }: AppState) => ({
+    timers,
+    warnings,
+    canControl: canDeviceControl(roles, DEVICE_ID, DEVICE_KEY)
+  }),
+  actions
+)(NotifierComponent)
@@ -0,0 +1,129 @@
+import { useState } from 'preact/hooks'
+import {
+  Box,
+  Button,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'
+import {
+  Lock as LockIcon
+} from '@mui/icons-material'
+import { useParentalLock } from '../contexts/parental-lock-context'
+import { isPinLockAvailable, isValidPin } from '../security/pin'
+
+// How long an unlock can last, in minutes
+const RELOCK_OPTIONS = [1, 5, 15, 30, 60]
+
+// Parental lock section of the settings: set, change or remove the PIN, and pick when it relocks.
+// Changing anything once a PIN is set needs the PIN
+export function ParentalLockSettings() {
+  const { hasPin, isLocked, unlockedUntil, relockAfterMinutes, requireUnlock, setPin, removePin, lockNow, setRelockAfterMinutes } = useParentalLock()
+  const [isEditing, setEditing] = useState(false)
+  const [newPin, setNewPin] = useState('')
+  const [confirmPin, setConfirmPin] = useState('')
+
+  const isMismatch = confirmPin.length > 0 && confirmPin !== newPin
+  const canSave = isValidPin(newPin) && confirmPin === newPin
+
+  const startEditing = () => {
+    setNewPin('')
+    setConfirmPin('')
+    setEditing(true)
+  }
+
+  const handleSave = async () => {
+    if (!canSave) return
+    await setPin(newPin)
+    setEditing(false)
+  }
+
+  // Digits only, like the PIN dialog
+  const toDigits = (value: string) => value.replace(/\D/g, '').slice(0, 8)
+
+  if (!hasPin && !isPinLockAvailable()) {
+    return (
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>
+          Parental lock
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          The PIN lock needs the app to be opened over HTTPS
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        Parental lock
+      </Typography>
+      <Typography variant="body2" color="text.secondary" gutterBottom>
+        {hasPin
+          ? isLocked
+            ? 'Locked - pausing, resetting and changing the time need the PIN'
+            : `Unlocked until ${new Date(unlockedUntil ?? Date.now()).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+          : 'Set a PIN so pausing, resetting and changing the time need a parent. Starting a timer and stopping the alarm stay open'}
+      </Typography>
+
+      {!hasPin || isEditing ? (
+        <Stack spacing={1.5} sx={{ mt: 1 }}>
+          <TextField
+            size="small"
+            type="password"
+            label={hasPin ? 'New PIN' : 'PIN'}
+            value={newPin}
+            onChange={(event: any) => setNewPin(toDigits(event.target.value))}
+            helperText="4 to 8 digits, saved only on this device"
+            inputProps={{ inputMode: 'numeric', autoComplete: 'new-password' }}
+          />
+          <TextField
+            size="small"
+            type="password"
+            label="Repeat PIN"
+            value={confirmPin}
+            onChange={(event: any) => setConfirmPin(toDigits(event.target.value))}
+            error={isMismatch}
+            helperText={isMismatch ? "The PINs don't match" : ' '}
+            inputProps={{ inputMode: 'numeric', autoComplete: 'new-password' }}
+          />
+          <Stack direction="row" spacing={1}>
+            <Button variant="outlined" onClick={handleSave} disabled={!canSave}>
+              {hasPin ? 'Change PIN' : 'Set PIN'}
+            </Button>
+            {isEditing && <Button onClick={() => setEditing(false)}>Cancel</Button>}
+          </Stack>
+        </Stack>
+      ) : (
+        <Stack spacing={1.5} sx={{ mt: 1 }}>
+          <TextField
+            select
+            size="small"
+            label="Lock again after"
+            value={relockAfterMinutes}
+            onChange={(event: any) => {
+              const minutes = Number(event.target.value)
+              requireUnlock(() => setRelockAfterMinutes(minutes))
+            }}
+            helperText="Counted from the last locked control used"
+          >
+            {RELOCK_OPTIONS.map((minutes) => (
+              <MenuItem key={minutes} value={minutes}>
+                {minutes === 60 ? '1 hour' : `${minutes} minute${minutes === 1 ? '' : 's'}`}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Stack direction="row" spacing={1} flexWrap="wrap">
+            <Button variant="outlined" startIcon={<LockIcon />} onClick={lockNow} disabled={isLocked}>
+              Lock now
+            </Button>
+            <Button onClick={() => requireUnlock(startEditing)}>Change PIN</Button>
+            <Button color="error" onClick={() => requireUnlock(removePin)}>Remove PIN</Button>
+          </Stack>
+        </Stack>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'preact/hooks'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Typography
+} from '@mui/material'
+import { isValidPin } from '../security/pin'
+
+interface PinDialogProps {
+  open: boolean
+  retryAfter: number | null // Too many wrong PINs - no guesses until then
+  onSubmit: (pin: string) => Promise<boolean> // Resolves false for a wrong PIN
+  onCancel: () => void
+}
+
+// Asks for the parental lock PIN before a locked control runs
+export function PinDialog({ open, retryAfter, onSubmit, onCancel }: PinDialogProps) {
+  const [pin, setPin] = useState('')
+  const [isWrong, setWrong] = useState(false)
+  const [isChecking, setChecking] = useState(false)
+
+  // Start from an empty field whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setPin('')
+    setWrong(false)
+  }, [open])
+
+  const isPaused = retryAfter !== null
+
+  const handleSubmit = async (event?: Event) => {
+    event?.preventDefault()
+    if (!isValidPin(pin) || isPaused || isChecking) return
+
+    setChecking(true)
+    const isCorrect = await onSubmit(pin)
+    setChecking(false)
+    if (!isCorrect) {
+      setPin('')
+      setWrong(true)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={onCancel} fullWidth maxWidth="xs">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Enter the parent PIN</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            This control is locked on this device. Starting a timer and stopping the alarm don't need the PIN.
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            type="password"
+            label="PIN"
+            value={pin}
+            onChange={(event: any) => {
+              setPin(event.target.value.replace(/\D/g, '').slice(0, 8))
+              setWrong(false)
+            }}
+            disabled={isPaused}
+            error={isWrong}
+            helperText={isPaused
+              ? `Too many wrong PINs - try again at ${new Date(retryAfter).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' })}`
+              : isWrong ? 'Wrong PIN' : ' '}
+            inputProps={{ inputMode: 'numeric', autoComplete: 'off', 'aria-label': 'Parent PIN' }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onCancel}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={!isValidPin(pin) || isPaused || isChecking}>
+            Unlock
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  )
+}
@@ -0,0 +1,45 @@
+import { connect } from 'redux-zero/preact'
+import { Alert } from '@mui/material'
+import actions from '../store/actions'
+import type { AppState } from '../store'
+
+interface RejectedMessagesAlertProps {
+  // Redux Zero props
+  quarantine: AppState['ui']['quarantine']
+  dismissQuarantine: () => void
+}
+
+// Warns when messages on the room's channel were rejected for a missing or wrong signature -
+// someone who knows the channel may be trying to change the timers, or a device has an old room link.
+// Encrypted messages this device can't read get their own hint, since the fix is the passphrase
+function RejectedMessagesAlertComponent({ quarantine, dismissQuarantine }: RejectedMessagesAlertProps) {
+  const count = quarantine.total - quarantine.dismissedTotal
+  if (count <= 0) return null
+
+  const recent = quarantine.messages.slice(-count)
+  const changes = `${count} timer ${count === 1 ? 'change' : 'changes'}`
+  const isEncrypted = recent.every((rejected) => rejected.reason === 'no-key' || rejected.reason === 'undecryptable')
+  const hasForged = recent.some((rejected) => rejected.reason === 'forged')
+
+  return (
+    <Alert severity="error" onClose={dismissQuarantine} sx={{ mt: 1, mx: 'auto', maxWidth: 480, textAlign: 'left' }}>
+      {isEncrypted ? (
+        <>
+          Couldn't read {changes} encrypted with {recent.some((rejected) => rejected.reason === 'no-key') ? 'a passphrase' : 'a different passphrase'}.
+          Open the room link from a device that has it, or enter the same passphrase in the room menu.
+        </>
+      ) : (
+        <>
+          Ignored {changes} that {count === 1 ? "wasn't" : "weren't"} signed with this room's secret
+          {hasForged ? ' (some had a forged signature)' : ''}. If one of your devices stopped syncing, open the room link from this device on it again.
+        </>
+      )}
+    </Alert>
+  )
+}
+
+// Connect the RejectedMessagesAlert component to Redux Zero
+export const RejectedMessagesAlert = connect(
+  ({ ui }: AppState) => ({ quarantine: ui.quarantine }),
+  actions
+)(RejectedMessagesAlertComponent)
@@ -0,0 +1,126 @@
+import { useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'
+import actions from '../store/actions'
+import { forgetRoomKey, getRoomName, rememberRoomKey } from '../store/rooms'
+import { deriveRoomKey, isEncryptionAvailable } from '../security/encryption'
+import type { AppState } from '../store'
+
+interface RoomEncryptionDialogProps {
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  roomId: string
+  roomKey: string | null
+  setRoomKey: (roomKey: string | null) => void
+}
+
+// Long enough that guessing it from a captured message isn't practical
+const MIN_PASSPHRASE_LENGTH = 8
+
+// Turn end-to-end encryption on for the current room with a passphrase, change it, or turn it off on this device
+function RoomEncryptionDialogComponent({ open, onClose, roomId, roomKey, setRoomKey }: RoomEncryptionDialogProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [isDeriving, setDeriving] = useState(false)
+
+  const isMismatch = confirmPassphrase.length > 0 && confirmPassphrase !== passphrase
+  const canSave = passphrase.length >= MIN_PASSPHRASE_LENGTH && confirmPassphrase === passphrase && !isDeriving
+
+  const handleClose = () => {
+    setPassphrase('')
+    setConfirmPassphrase('')
+    onClose()
+  }
+
+  const handleSave = async () => {
+    if (!canSave) return
+    setDeriving(true)
+    try {
+      const key = await deriveRoomKey(passphrase, roomId)
+      rememberRoomKey(roomId, key)
+      setRoomKey(key)
+      handleClose()
+    } catch (error) {
+      console.error('❌ Failed to derive the room key:', error)
+    } finally {
+      setDeriving(false)
+    }
+  }
+
+  const handleTurnOff = () => {
+    forgetRoomKey(roomId)
+    setRoomKey(null)
+    handleClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+      <DialogTitle>Encrypt "{getRoomName(roomId)}"</DialogTitle>
+      <DialogContent>
+        {!isEncryptionAvailable() ? (
+          <Typography variant="body2" color="text.secondary">
+            Encryption needs the app to be opened over HTTPS
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {roomKey
+                ? "On - timer names, routines and times are encrypted before they leave this device. The room link carries the key, so share it again with devices that joined earlier (or enter the same passphrase on them)"
+                : "Off - timer names, routines and times reach the sync server as they are. Set a passphrase to encrypt them: devices that open this room's link get the key, others can enter the same passphrase"}
+            </Typography>
+            <Stack spacing={1.5} sx={{ mt: 2 }}>
+              <TextField
+                autoFocus
+                size="small"
+                type="password"
+                label={roomKey ? 'New passphrase' : 'Passphrase'}
+                value={passphrase}
+                onChange={(event: any) => setPassphrase(event.target.value)}
+                helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters - it never leaves this device, only the key made from it does`}
+                inputProps={{ autoComplete: 'new-password' }}
+              />
+              <TextField
+                size="small"
+                type="password"
+                label="Repeat passphrase"
+                value={confirmPassphrase}
+                onChange={(event: any) => setConfirmPassphrase(event.target.value)}
+                onKeyDown={(event: any) => {
+                  if (event.key === 'Enter') handleSave()
+                }}
+                error={isMismatch}
+                helperText={isMismatch ? "The passphrases don't match" : ' '}
+                inputProps={{ autoComplete: 'new-password' }}
+              />
+            </Stack>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {roomKey && <Button color="error" onClick={handleTurnOff}>Turn off here</Button>}
+        <Button onClick={handleClose}>Cancel</Button>
+        {isEncryptionAvailable() && (
+          <Button variant="contained" onClick={handleSave} disabled={!canSave}>
+            {isDeriving ? 'Encrypting...' : roomKey ? 'Change' : 'Encrypt'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the RoomEncryptionDialog component to Redux Zero
+export const RoomEncryptionDialog = connect(
+  ({ ui }: AppState) => ({ roomId: ui.roomId, roomKey: ui.roomKey }),
+  actions
+)(RoomEncryptionDialogComponent)
@@ -0,0 +1,58 @@
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Typography
+} from '@mui/material'
+import { useParentalLock } from '../contexts/parental-lock-context'
+import actions from '../store/actions'
+import { getRoomName, replaceRoomSecret } from '../store/rooms'
+import type { RoomLink } from '../store/rooms'
+import type { AppState } from '../store'
+
+interface RoomSecretDialogProps {
+  link: RoomLink | null // The opened link, while its secret differs from the one this device kept
+  onClose: () => void
+  // Redux Zero props
+  roomId: string
+  setRoomSecret: (roomSecret: string) => void
+}
+
+// Ask before a room link replaces the secret this device already has for the room. Anyone can send a
+// link, so its secret is only taken when the user says so (and has the PIN, with the parental lock on)
+function RoomSecretDialogComponent({ link, onClose, roomId, setRoomSecret }: RoomSecretDialogProps) {
+  const { requireUnlock } = useParentalLock()
+
+  const handleReplace = () => requireUnlock(() => {
+    if (!link?.secret) return
+    replaceRoomSecret(link.roomId, link.secret)
+    if (link.roomId === roomId) setRoomSecret(link.secret)
+    onClose()
+  })
+
+  return (
+    <Dialog open={link !== null} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Use this link's room secret?</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary">
+          The link has a different secret for "{link ? getRoomName(link.roomId) : ''}" than this device already has, so this
+          device kept its own. Only use the link's secret if it came from a device in the room you trust - from then on,
+          this device only accepts timer changes signed with it
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Keep this device's</Button>
+        <Button variant="contained" color="warning" onClick={handleReplace}>Use the link's</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the RoomSecretDialog component to Redux Zero
+export const RoomSecretDialog = connect(
+  ({ ui }: AppState) => ({ roomId: ui.roomId }),
+  actions
+)(RoomSecretDialogComponent)
@@ -0,0 +1,191 @@
+import { useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Divider,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Check as CheckIcon,
+  Edit as EditIcon,
+  EnhancedEncryption as EnhancedEncryptionIcon,
+  ExpandMore as ExpandMoreIcon,
+  Login as LoginIcon,
+  MeetingRoom as MeetingRoomIcon
+} from '@mui/icons-material'
+import { RoomEncryptionDialog } from './room-encryption-dialog'
+import { RoomSecretDialog } from './room-secret-dialog'
+import { useRoomUrl } from '../hooks/use-room-url'
+import actions from '../store/actions'
+import { createRoomId, getRoomName, getShortRoomId, hasOtherRoomSecret, loadRecentRooms, openRoomLink, parseRoomInput, rememberRoom, renameRoom } from '../store/rooms'
+import type { RecentRoom, RoomLink } from '../store/rooms'
+import type { AppState } from '../store'
+
+interface RoomSwitcherProps {
+  // Redux Zero props
+  roomId: string
+  roomKey: string | null
+  roomSecret: string
+  joinRoom: (roomId: string) => void
+}
+
+// Dialog is closed, naming a new room, joining one from a link, or renaming the current one
+type DialogMode = 'closed' | 'create' | 'join' | 'rename'
+
+const DIALOG_TITLES: Record<Exclude<DialogMode, 'closed'>, string> = {
+  create: 'New room',
+  join: 'Join a room',
+  rename: 'Rename room',
+}
+
+// Shows the current room and switches between recent rooms, new rooms and shared links
+function RoomSwitcherComponent({ roomId, roomKey, roomSecret, joinRoom }: RoomSwitcherProps) {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null)
+  const [recentRooms, setRecentRooms] = useState<RecentRoom[]>([])
+  const [dialog, setDialog] = useState<DialogMode>('closed')
+  const [text, setText] = useState('')
+  const [isEncryptionOpen, setEncryptionOpen] = useState(false)
+  const [otherSecretLink, setOtherSecretLink] = useState<RoomLink | null>(null)
+
+  useRoomUrl(roomId, roomKey, roomSecret, joinRoom, setOtherSecretLink)
+
+  const roomName = getRoomName(roomId)
+  const joinLink = dialog === 'join' ? parseRoomInput(text) : null
+  const canSave = dialog === 'join' ? joinLink !== null : text.trim() !== ''
+
+  const openMenu = (event: any) => {
+    setRecentRooms(loadRecentRooms())
+    setMenuAnchor(event.currentTarget)
+  }
+
+  const openDialog = (mode: DialogMode) => {
+    setMenuAnchor(null)
+    setText(mode === 'rename' ? roomName : mode === 'create' ? `Room ${recentRooms.length + 1}` : '')
+    setDialog(mode)
+  }
+
+  const closeDialog = () => setDialog('closed')
+
+  const switchTo = (newRoomId: string) => {
+    setMenuAnchor(null)
+    joinRoom(newRoomId)
+  }
+
+  const handleSave = () => {
+    if (!canSave) return
+
+    if (dialog === 'create') {
+      const newRoomId = createRoomId()
+      console.log('🚪 Creating room:', newRoomId)
+      rememberRoom(newRoomId, text)
+      joinRoom(newRoomId)
+    } else if (dialog === 'join' && joinLink) {
+      joinRoom(openRoomLink(joinLink))
+      if (hasOtherRoomSecret(joinLink)) setOtherSecretLink(joinLink)
+    } else if (dialog === 'rename') {
+      renameRoom(roomId, text)
+    }
+    closeDialog()
+  }
+
+  return (
+    <>
+      <Tooltip title="Switch room - each room has its own timers">
+        <Chip
+          icon={<MeetingRoomIcon />}
+          label={roomName}
+          deleteIcon={<ExpandMoreIcon />}
+          onClick={openMenu}
+          onDelete={openMenu}
+          variant="outlined"
+          size="small"
+          aria-label={`Room: ${roomName}`}
+          sx={{
+            '@media (max-height:600px) and (orientation: landscape)': {
+              fontSize: '0.7rem',
+              height: '20px',
+            },
+          }}
+        />
+      </Tooltip>
+
+      <Menu anchorEl={menuAnchor} open={menuAnchor !== null} onClose={() => setMenuAnchor(null)}>
+        <ListSubheader>Recent rooms</ListSubheader>
+        {recentRooms.map((room) => (
+          <MenuItem key={room.id} selected={room.id === roomId} onClick={() => switchTo(room.id)}>
+            <ListItemIcon>{room.id === roomId && <CheckIcon fontSize="small" />}</ListItemIcon>
+            <ListItemText primary={room.name} secondary={getShortRoomId(room.id)} />
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={() => openDialog('create')}>
+          <ListItemIcon><AddIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>New room...</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => openDialog('join')}>
+          <ListItemIcon><LoginIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Join with a link...</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => openDialog('rename')}>
+          <ListItemIcon><EditIcon fontSize="small" /></ListItemIcon>
+          <ListItemText>Rename this room...</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => { setMenuAnchor(null); setEncryptionOpen(true) }}>
+          <ListItemIcon><EnhancedEncryptionIcon fontSize="small" /></ListItemIcon>
+          <ListItemText secondary={roomKey ? 'On' : 'Off'}>Encrypt with a passphrase...</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={dialog !== 'closed'} onClose={closeDialog} fullWidth maxWidth="xs">
+        <DialogTitle>{dialog !== 'closed' && DIALOG_TITLES[dialog]}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label={dialog === 'join' ? 'Room link or code' : 'Name on this device'}
+            placeholder={dialog === 'join' ? 'https://.../#/room/...' : 'e.g. Home'}
+            value={text}
+            onChange={(event: any) => setText(event.target.value)}
+            onKeyDown={(event: any) => {
+              if (event.key === 'Enter') handleSave()
+            }}
+            error={dialog === 'join' && text.trim() !== '' && joinLink === null}
+            helperText={dialog === 'join'
+              ? 'Paste the link from another device in the room - it carries the room secret, a bare code only works on devices that have it'
+              : dialog === 'create'
+                ? 'A new room starts with its own timers - share its link to add devices'
+                : 'Names are only shown on this device'}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!canSave}>
+            {dialog === 'create' ? 'Create' : dialog === 'join' ? 'Join' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <RoomEncryptionDialog open={isEncryptionOpen} onClose={() => setEncryptionOpen(false)} />
+      <RoomSecretDialog link={otherSecretLink} onClose={() => setOtherSecretLink(null)} />
+    </>
+  )
+}
+
+// Connect the RoomSwitcher component to Redux Zero
+export const RoomSwitcher = connect(
+  ({ ui }: AppState) => ({ roomId: ui.roomId, roomKey: ui.roomKey, roomSecret: ui.roomSecret }),
+  actions
+)(RoomSwitcherComponent)
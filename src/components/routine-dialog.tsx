@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Stack,
+  TextField
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon
+} from '@mui/icons-material'
+import actions from '../store/actions'
+import type { AppState, TimerState } from '../store'
+
+interface RoutineDialogProps {
+  timerId: string
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  timer: TimerState
+  setRoutine: (timerId: string, name: string, steps: { name: string, durationMs: number }[]) => void
+  clearRoutine: (timerId: string) => void
+}
+
+// Step rows are edited as text so partially typed numbers don't get mangled
+interface StepDraft {
+  name: string
+  minutes: string
+}
+
+// Example routine offered when a timer doesn't have one yet
+const EXAMPLE_STEPS: StepDraft[] = [
+  { name: 'Brush teeth', minutes: '3' },
+  { name: 'Pajamas', minutes: '5' },
+  { name: 'Story', minutes: '15' }
+]
+
+const parseMinutes = (minutes: string) => {
+  const value = parseFloat(minutes)
+  return Number.isFinite(value) && value > 0 ? value : 0
+}
+
+function RoutineDialogComponent({
+  timerId,
+  open,
+  onClose,
+  timer,
+  setRoutine,
+  clearRoutine
+}: RoutineDialogProps) {
+  const [name, setName] = useState('')
+  const [steps, setSteps] = useState<StepDraft[]>([])
+
+  // Load the timer's current routine (or the example) whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    if (timer.routine) {
+      setName(timer.routine.name)
+      setSteps(timer.routine.steps.map((step) => ({
+        name: step.name,
+        minutes: String(step.durationMs / (60 * 1000))
+      })))
+    } else {
+      setName('Bedtime')
+      setSteps(EXAMPLE_STEPS)
+    }
+  }, [open]) // Not timer.routine - a step advancing elsewhere shouldn't wipe the draft
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps(steps.map((step, i) => i === index ? { ...step, ...changes } : step))
+  }
+
+  const isValid = steps.length > 0 && steps.every((step) => step.name.trim() && parseMinutes(step.minutes) > 0)
+
+  const handleSave = () => {
+    if (!isValid) return
+
+    console.log('📋 Setting routine via Redux action:', name, steps)
+    setRoutine(timerId, name, steps.map((step) => ({
+      name: step.name,
+      durationMs: Math.round(parseMinutes(step.minutes) * 60 * 1000)
+    })))
+    onClose()
+  }
+
+  const handleClear = () => {
+    console.log('📋 Clearing routine via Redux action')
+    clearRoutine(timerId)
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Routine</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          margin="dense"
+          label="Routine name"
+          value={name}
+          onChange={(event: any) => setName(event.target.value)}
+        />
+        <Stack spacing={1} sx={{ mt: 2 }}>
+          {steps.map((step, index) => (
+            <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              <TextField
+                size="small"
+                label={`Step ${index + 1}`}
+                value={step.name}
+                onChange={(event: any) => updateStep(index, { name: event.target.value })}
+                sx={{ flex: 1 }}
+              />
+              <TextField
+                size="small"
+                label="Minutes"
+                type="number"
+                value={step.minutes}
+                onChange={(event: any) => updateStep(index, { minutes: event.target.value })}
+                inputProps={{ min: 0, step: 0.5 }}
+                sx={{ width: 100 }}
+              />
+              <IconButton
+                size="small"
+                onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                disabled={steps.length <= 1}
+                aria-label={`Remove step ${index + 1}`}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Button
+            startIcon={<AddIcon />}
+            onClick={() => setSteps([...steps, { name: '', minutes: '5' }])}
+            sx={{ alignSelf: 'flex-start' }}
+          >
+            Add step
+          </Button>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {timer.routine && (
+          <Button color="error" onClick={handleClear} sx={{ mr: 'auto' }}>
+            Clear routine
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={!isValid}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the RoutineDialog component to Redux Zero, selecting the timer by id
+export const RoutineDialog = connect(
+  ({ timers }: AppState, { timerId }: { timerId: string }) => ({ timer: timers[timerId] }),
+  actions
+)(RoutineDialogComponent)
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Stack,
+  TextField,
+  Typography
+} from '@mui/material'
+import actions from '../store/actions'
+import { clockNow } from '../store/clock'
+import type { AppState, TimerState } from '../store'
+
+interface ScheduleDialogProps {
+  timerId: string
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  timer: TimerState
+  endTimerAt: (timerId: string, endAt: number) => void
+  scheduleStart: (timerId: string, startAt: number) => void
+  cancelScheduledStart: (timerId: string) => void
+}
+
+// Turn an "HH:MM" time input into the next time the clock shows it (today, or tomorrow if already past)
+const nextOccurrence = (time: string, after: number) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null
+
+  const date = new Date(after)
+  date.setHours(hours, minutes, 0, 0)
+  if (date.getTime() <= after) {
+    date.setDate(date.getDate() + 1)
+  }
+  return date.getTime()
+}
+
+// Format an epoch timestamp as an "HH:MM" time input value
+const toTimeInput = (timestamp: number) => {
+  const date = new Date(timestamp)
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`
+}
+
+export const formatClockTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+function ScheduleDialogComponent({
+  timerId,
+  open,
+  onClose,
+  timer,
+  endTimerAt,
+  scheduleStart,
+  cancelScheduledStart
+}: ScheduleDialogProps) {
+  const [startAt, setStartAt] = useState('')
+  const [endAt, setEndAt] = useState('')
+
+  // Prefill with the timer's current schedule whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setStartAt(timer.scheduledStartTime !== null ? toTimeInput(timer.scheduledStartTime) : '')
+    setEndAt(timer.scheduledStartTime !== null && timer.mode === 'countdown'
+      ? toTimeInput(timer.scheduledStartTime + timer.durationMs)
+      : timer.isRunning && timer.endTime ? toTimeInput(timer.endTime) : '')
+  }, [open])
+
+  const now = clockNow()
+  const startTimestamp = startAt ? nextOccurrence(startAt, now) : null
+  // The end time is the first occurrence after the start (or after now if starting right away)
+  const endTimestamp = endAt ? nextOccurrence(endAt, startTimestamp ?? now) : null
+  const isStopwatch = timer.mode === 'stopwatch'
+
+  const handleSave = () => {
+    if (startTimestamp !== null) {
+      console.log('🕰️ Scheduling start via Redux action:', new Date(startTimestamp))
+      scheduleStart(timerId, startTimestamp)
+    }
+    if (endTimestamp !== null && !isStopwatch) {
+      // Dispatched after scheduleStart so the duration is derived from the scheduled start
+      console.log('🕰️ Setting end time via Redux action:', new Date(endTimestamp))
+      endTimerAt(timerId, endTimestamp)
+    }
+    onClose()
+  }
+
+  const handleCancelStart = () => {
+    console.log('🕰️ Cancelling scheduled start via Redux action')
+    cancelScheduledStart(timerId)
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Schedule</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Start at"
+            type="time"
+            value={startAt}
+            onChange={(event: any) => setStartAt(event.target.value)}
+            InputLabelProps={{ shrink: true }}
+            helperText={startTimestamp !== null ? `Starts by itself at ${formatClockTime(startTimestamp)}` : 'Leave empty to start now'}
+          />
+          {!isStopwatch && (
+            <TextField
+              label="End at"
+              type="time"
+              value={endAt}
+              onChange={(event: any) => setEndAt(event.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText={endTimestamp !== null
+                ? `${startTimestamp !== null ? 'Runs' : 'Starts now and runs'} until ${formatClockTime(endTimestamp)}`
+                : 'Leave empty to keep the current duration'}
+            />
+          )}
+          {timer.scheduledStartTime !== null && (
+            <Typography variant="body2" color="text.secondary">
+              Currently scheduled to start at {formatClockTime(timer.scheduledStartTime)}
+            </Typography>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        {timer.scheduledStartTime !== null && (
+          <Button color="error" onClick={handleCancelStart} sx={{ mr: 'auto' }}>
+            Cancel start
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+        <Button variant="contained" onClick={handleSave} disabled={startTimestamp === null && endTimestamp === null}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the ScheduleDialog component to Redux Zero, selecting the timer by id
+export const ScheduleDialog = connect(
+  ({ timers }: AppState, { timerId }: { timerId: string }) => ({ timer: timers[timerId] }),
+  actions
+)(ScheduleDialogComponent)
@@ -0,0 +1,254 @@
+import { useEffect, useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Divider,
+  FormControlLabel,
+  MenuItem,
+  Slider,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material'
+import {
+  VolumeDown as VolumeDownIcon,
+  VolumeUp as VolumeUpIcon
+} from '@mui/icons-material'
+import { playSound, SOUND_LABELS, unlockAudio } from '../audio/sounds'
+import type { SoundChoice } from '../audio/sounds'
+import { formatAnnouncement, isSpeechSupported, speak, SPEECH_LANGUAGE_LABELS, SPEECH_PHRASES } from '../audio/speech'
+import type { SpeechPhrases } from '../audio/speech'
+import { useDeviceSettings } from '../contexts/device-settings-context'
+import { areNotificationsSupported } from './notifier'
+import { ParentalLockSettings } from './parental-lock-settings'
+import actions from '../store/actions'
+import type { AppState } from '../store'
+import type { DeviceInfo } from '../store/devices'
+
+interface SettingsDialogProps {
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  device: DeviceInfo
+  setDeviceInfo: (changes: Partial<DeviceInfo>) => void
+}
+
+// Labels for the editable phrase templates
+const PHRASE_FIELDS: { key: keyof SpeechPhrases, label: string }[] = [
+  { key: 'minutesLeft', label: 'Minutes left' },
+  { key: 'oneMinuteLeft', label: 'One minute left' },
+  { key: 'secondsLeft', label: 'Seconds left' },
+  { key: 'timesUp', label: "Time's up" },
+]
+
+// Announcement points are edited as minutes, e.g. "10, 5, 1"
+const formatAnnounceMinutes = (seconds: number[]) => seconds.map((value) => String(value / 60)).join(', ')
+
+const parseAnnounceMinutes = (text: string) =>
+  text.split(',')
+    .map((part) => parseFloat(part))
+    .filter((minutes) => Number.isFinite(minutes) && minutes > 0)
+    .map((minutes) => Math.round(minutes * 60))
+
+// Preferences for this device only - other devices in the room keep their own
+function SettingsDialogComponent({ open, onClose, device, setDeviceInfo }: SettingsDialogProps) {
+  const { settings, updateSettings } = useDeviceSettings()
+  const [announceMinutes, setAnnounceMinutes] = useState('')
+  const [deviceName, setDeviceName] = useState('')
+
+  // Load the announcement points and device name as text whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setAnnounceMinutes(formatAnnounceMinutes(settings.announceAtSeconds))
+      setDeviceName(device.name)
+    }
+  }, [open])
+
+  // The name goes out to the room once editing is done, not on every keystroke
+  const commitDeviceName = () => {
+    if (deviceName.trim() && deviceName.trim() !== device.name) {
+      console.log('🏷️ Renaming this device:', deviceName.trim())
+      setDeviceInfo({ name: deviceName.trim() })
+    }
+  }
+
+  const handleClose = () => {
+    commitDeviceName()
+    onClose()
+  }
+
+  const handleTestSound = () => {
+    // Pressing the button counts as a user interaction, so it also unlocks audio
+    unlockAudio()
+    // Give the audio context a moment to resume before the first note
+    window.setTimeout(() => playSound(settings.sound, settings.volume), 50)
+  }
+
+  const handleTestSpeech = () => {
+    speak(formatAnnouncement(settings.speechPhrases, 'Timer', 60), settings.speechLanguage, settings.volume)
+  }
+
+  // Turning notifications on asks the browser for permission first
+  const handleNotificationsChange = async (enabled: boolean) => {
+    if (enabled && Notification.permission !== 'granted') {
+      const permission = await Notification.requestPermission()
+      console.log('🔔 Notification permission:', permission)
+      if (permission !== 'granted') return
+    }
+    updateSettings({ notificationsEnabled: enabled })
+  }
+
+  // Switching language swaps in that language's built-in phrases
+  const handleLanguageChange = (speechLanguage: string) => {
+    updateSettings({ speechLanguage, speechPhrases: SPEECH_PHRASES[speechLanguage] ?? settings.speechPhrases })
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullWidth maxWidth="xs">
+      <DialogTitle>This device</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Device name"
+            placeholder="e.g. Kitchen iPad"
+            value={deviceName}
+            onChange={(event: any) => setDeviceName(event.target.value)}
+            onBlur={commitDeviceName}
+            helperText="How this device shows up in the room's device list (roles are set there)"
+          />
+
+          <Divider />
+
+          <ParentalLockSettings />
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>
+              Alarm sound
+            </Typography>
+            <ToggleButtonGroup
+              value={settings.sound}
+              exclusive
+              size="small"
+              onChange={(_event, sound: SoundChoice | null) => sound && updateSettings({ sound })}
+              aria-label="Alarm sound"
+            >
+              {(Object.keys(SOUND_LABELS) as SoundChoice[]).map((sound) => (
+                <ToggleButton key={sound} value={sound}>
+                  {SOUND_LABELS[sound]}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>
+              Volume
+            </Typography>
+            <Stack direction="row" spacing={2} alignItems="center">
+              <VolumeDownIcon />
+              <Slider
+                value={Math.round(settings.volume * 100)}
+                onChange={(_event, value) => updateSettings({ volume: (value as number) / 100 })}
+                aria-label="Volume"
+              />
+              <VolumeUpIcon />
+            </Stack>
+          </Box>
+          <Button variant="outlined" onClick={handleTestSound} sx={{ alignSelf: 'flex-start' }}>
+            Test sound
+          </Button>
+
+          <Divider />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.speechEnabled}
+                onChange={(event: any) => updateSettings({ speechEnabled: event.target.checked })}
+                disabled={!isSpeechSupported()}
+              />
+            }
+            label={isSpeechSupported() ? 'Speak announcements on this device' : 'Spoken announcements are not supported in this browser'}
+          />
+          {settings.speechEnabled && (
+            <>
+              <TextField
+                select
+                label="Language"
+                value={settings.speechLanguage}
+                onChange={(event: any) => handleLanguageChange(event.target.value)}
+              >
+                {Object.keys(SPEECH_LANGUAGE_LABELS).map((language) => (
+                  <MenuItem key={language} value={language}>
+                    {SPEECH_LANGUAGE_LABELS[language]}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Announce at (minutes left)"
+                value={announceMinutes}
+                onChange={(event: any) => {
+                  setAnnounceMinutes(event.target.value)
+                  updateSettings({ announceAtSeconds: parseAnnounceMinutes(event.target.value) })
+                }}
+                helperText="Comma-separated, e.g. 10, 5, 1"
+              />
+              {PHRASE_FIELDS.map(({ key, label }) => (
+                <TextField
+                  key={key}
+                  size="small"
+                  label={label}
+                  value={settings.speechPhrases[key]}
+                  onChange={(event: any) => updateSettings({
+                    speechPhrases: { ...settings.speechPhrases, [key]: event.target.value }
+                  })}
+                />
+              ))}
+              <Typography variant="caption" color="text.secondary">
+                {'{label}'} is replaced by the timer's name, {'{count}'} by the number of minutes or seconds
+              </Typography>
+              <Button variant="outlined" onClick={handleTestSpeech} sx={{ alignSelf: 'flex-start' }}>
+                Test announcement
+              </Button>
+            </>
+          )}
+
+          <Divider />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.notificationsEnabled && areNotificationsSupported() && Notification.permission === 'granted'}
+                onChange={(event: any) => handleNotificationsChange(event.target.checked)}
+                disabled={!areNotificationsSupported() || Notification.permission === 'denied'}
+              />
+            }
+            label={!areNotificationsSupported()
+              ? 'Notifications are not supported in this browser'
+              : Notification.permission === 'denied'
+                ? 'Notifications are blocked - allow them in the browser settings'
+                : 'Notify when a timer ends in the background'}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Done</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the SettingsDialog component to Redux Zero
+export const SettingsDialog = connect(
+  ({ ui }: AppState) => ({ device: ui.device }),
+  actions
+)(SettingsDialogComponent)
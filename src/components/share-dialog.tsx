@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  InputAdornment,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material'
+import {
+  ContentCopy as ContentCopyIcon,
+  Check as CheckIcon,
+  Share as ShareIcon
+} from '@mui/icons-material'
+import { encodeQrCode } from '../qr/qr-code'
+import { getRoomName, getRoomUrl } from '../store/rooms'
+import type { AppState } from '../store'
+
+interface ShareDialogProps {
+  open: boolean
+  onClose: () => void
+  // Redux Zero props
+  roomId: string
+}
+
+// Light margin around the code, in modules - scanners need it to find the edges
+const QUIET_ZONE = 4
+
+// How long the copy button shows its checkmark
+const COPIED_FEEDBACK_MS = 2000
+
+// One square per dark module, drawn as a single SVG path
+const getQrPath = (modules: boolean[][]) =>
+  modules.flatMap((row, y) =>
+    row.map((isDark, x) => isDark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')
+  ).join('')
+
+// Room link as a QR code, a copyable link and the system share sheet, for bringing another device into the room
+function ShareDialogComponent({ open, onClose, roomId }: ShareDialogProps) {
+  const [isCopied, setCopied] = useState(false)
+
+  const roomUrl = getRoomUrl(roomId)
+  const roomName = getRoomName(roomId)
+  const modules = useMemo(() => encodeQrCode(roomUrl), [roomUrl])
+  const viewSize = modules.length + QUIET_ZONE * 2
+  const canShare = typeof navigator.share === 'function'
+
+  const handleCopy = (event: any) => {
+    // Select the link too, so it can be copied by hand if the clipboard isn't available
+    const input = event.currentTarget.closest('.MuiInputBase-root')?.querySelector('input')
+    input?.select()
+
+    navigator.clipboard?.writeText(roomUrl).then(() => {
+      console.log('📋 Room link copied')
+      setCopied(true)
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS)
+    }).catch((error) => {
+      console.error('❌ Failed to copy room link:', error)
+    })
+  }
+
+  const handleShare = () => {
+    navigator.share({
+      title: 'Kid Timer',
+      text: `Join "${roomName}" on Kid Timer`,
+      url: roomUrl
+    }).catch((error) => {
+      // Closing the share sheet without picking anything isn't an error
+      if (error.name !== 'AbortError') {
+        console.error('❌ Failed to share room link:', error)
+      }
+    })
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Share "{roomName}"</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Scan this code with the other device's camera to join the room. Its timers appear as soon as it opens.
+        </Typography>
+        <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+          {/* Always dark on white, whatever the theme - scanners expect it */}
+          <svg
+            viewBox={`0 0 ${viewSize} ${viewSize}`}
+            width="240"
+            height="240"
+            shape-rendering="crispEdges"
+            role="img"
+            aria-label={`QR code for ${roomUrl}`}
+          >
+            <rect width={viewSize} height={viewSize} fill="#ffffff" />
+            <path d={getQrPath(modules)} fill="#000000" />
+          </svg>
+        </Box>
+        <TextField
+          fullWidth
+          size="small"
+          label="Room link"
+          value={roomUrl}
+          onFocus={(event: any) => event.target.select()}
+          InputProps={{
+            readOnly: true,
+            endAdornment: (
+              <InputAdornment position="end">
+                <Tooltip title={isCopied ? 'Copied' : 'Copy link'}>
+                  <IconButton edge="end" onClick={handleCopy} aria-label="Copy link">
+                    {isCopied ? <CheckIcon color="success" /> : <ContentCopyIcon />}
+                  </IconButton>
+                </Tooltip>
+              </InputAdornment>
+            )
+          }}
+        />
+      </DialogContent>
+      <DialogActions>
+        {canShare && (
+          <Button startIcon={<ShareIcon />} onClick={handleShare} sx={{ mr: 'auto' }}>
+            Share...
+          </Button>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+// Connect the ShareDialog component to Redux Zero
+export const ShareDialog = connect(
+  ({ ui }: AppState) => ({ roomId: ui.roomId })
+)(ShareDialogComponent)
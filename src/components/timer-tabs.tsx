@@ -0,0 +1,268 @@
+import { useState } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Box,
+  Tabs,
+  Tab,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Typography
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  PlaylistPlay as PlaylistPlayIcon
+} from '@mui/icons-material'
+import { RoutineDialog } from './routine-dialog'
+import { useParentalLock } from '../contexts/parental-lock-context'
+import actions from '../store/actions'
+import { DEVICE_ID, DEVICE_KEY } from '../config/config'
+import { canDeviceControl } from '../store/roles'
+import { getSortedTimers } from '../store'
+import type { AppState } from '../store'
+
+interface TimerTabsProps {
+  // Redux Zero props
+  timers: AppState['timers']
+  activeTimerId: string
+  canControl: boolean // A display can switch tabs but not add or edit timers
+  addTimer: (label: string, initialMinutes?: number) => void
+  removeTimer: (timerId: string) => void
+  renameTimer: (timerId: string, label: string) => void
+  setActiveTimer: (timerId: string) => void
+  setOvertimeCap: (timerId: string, capMs: number | null) => void
+  setWarningThresholds: (timerId: string, thresholdsMs: number[]) => void
+}
+
+// Format an overtime amount as m:ss
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`
+}
+
+// Warning thresholds are edited as minutes, e.g. "5, 2, 0.5"
+const formatThresholds = (thresholdsMs: number[]) =>
+  thresholdsMs.map((thresholdMs) => String(thresholdMs / (60 * 1000))).join(', ')
+
+const parseThresholds = (text: string) =>
+  text.split(',')
+    .map((part) => parseFloat(part))
+    .filter((minutes) => Number.isFinite(minutes) && minutes > 0)
+    .map((minutes) => Math.round(minutes * 60 * 1000))
+
+// Dialog is either closed, adding a new timer, or editing an existing one
+type DialogMode = { type: 'closed' } | { type: 'add' } | { type: 'edit', timerId: string }
+
+function TimerTabsComponent({
+  timers,
+  activeTimerId,
+  canControl,
+  addTimer,
+  removeTimer,
+  renameTimer,
+  setActiveTimer,
+  setOvertimeCap,
+  setWarningThresholds
+}: TimerTabsProps) {
+  const { requireUnlock } = useParentalLock()
+  const [dialog, setDialog] = useState<DialogMode>({ type: 'closed' })
+  const [label, setLabel] = useState('')
+  const [overtimeCapMinutes, setOvertimeCapMinutes] = useState('')
+  const [warningMinutes, setWarningMinutes] = useState('')
+  const [isRoutineDialogOpen, setRoutineDialogOpen] = useState(false)
+
+  const sortedTimers = getSortedTimers(timers)
+  const editedTimer = dialog.type === 'edit' ? timers[dialog.timerId] : undefined
+  const canRemove = sortedTimers.length > 1
+
+  const openAddDialog = () => {
+    setLabel('')
+    setDialog({ type: 'add' })
+  }
+
+  const openEditDialog = () => {
+    const timer = timers[activeTimerId]
+    setLabel(timer?.label ?? '')
+    setOvertimeCapMinutes(timer?.overtimeCapMs ? String(timer.overtimeCapMs / (60 * 1000)) : '')
+    setWarningMinutes(timer ? formatThresholds(timer.warningThresholdsMs) : '')
+    setDialog({ type: 'edit', timerId: activeTimerId })
+  }
+
+  const closeDialog = () => setDialog({ type: 'closed' })
+
+  const handleSave = () => {
+    if (!label.trim()) return
+
+    if (dialog.type === 'add') {
+      console.log('🆕 Adding timer via Redux action:', label)
+      addTimer(label)
+    } else if (dialog.type === 'edit') {
+      console.log('✏️ Renaming timer via Redux action:', label)
+      renameTimer(dialog.timerId, label)
+
+      // Blank (or zero) means overtime keeps counting with no limit
+      const capMinutes = parseFloat(overtimeCapMinutes)
+      const capMs = Number.isFinite(capMinutes) && capMinutes > 0 ? Math.round(capMinutes * 60 * 1000) : null
+      if (capMs !== timers[dialog.timerId]?.overtimeCapMs) {
+        setOvertimeCap(dialog.timerId, capMs)
+      }
+
+      // Blank means no warnings at all
+      const thresholdsMs = parseThresholds(warningMinutes)
+      if (formatThresholds(thresholdsMs) !== formatThresholds(timers[dialog.timerId]?.warningThresholdsMs ?? [])) {
+        setWarningThresholds(dialog.timerId, thresholdsMs)
+      }
+    }
+    closeDialog()
+  }
+
+  const handleRemove = () => {
+    if (dialog.type !== 'edit') return
+
+    console.log('🗑️ Removing timer via Redux action:', dialog.timerId)
+    removeTimer(dialog.timerId)
+    closeDialog()
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        maxWidth: '100%',
+        gap: 0.5,
+      }}
+    >
+      <Tabs
+        value={activeTimerId}
+        onChange={(_event, value: string) => setActiveTimer(value)}
+        variant="scrollable"
+        scrollButtons="auto"
+        aria-label="Timers"
+        sx={{ minHeight: 36 }}
+      >
+        {sortedTimers.map((timer) => (
+          <Tab
+            key={timer.id}
+            value={timer.id}
+            label={timer.label}
+            sx={{
+              minHeight: 36,
+              textTransform: 'none',
+              color: timer.isComplete ? 'primary.main' : timer.isRunning ? 'error.main' : undefined,
+            }}
+          />
+        ))}
+      </Tabs>
+      {canControl && (
+        <>
+          <Tooltip title="Edit timer">
+            <IconButton size="small" onClick={() => requireUnlock(openEditDialog)} aria-label="Edit timer">
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Set up routine">
+            <IconButton size="small" onClick={() => requireUnlock(() => setRoutineDialogOpen(true))} aria-label="Set up routine">
+              <PlaylistPlayIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Add timer">
+            <IconButton size="small" onClick={() => requireUnlock(openAddDialog)} aria-label="Add timer">
+              <AddIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </>
+      )}
+
+      <Dialog open={dialog.type !== 'closed'} onClose={closeDialog} fullWidth maxWidth="xs">
+        <DialogTitle>{dialog.type === 'add' ? 'New timer' : 'Edit timer'}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Label"
+            placeholder="e.g. Bath time"
+            value={label}
+            onChange={(event: any) => setLabel(event.target.value)}
+            onKeyDown={(event: any) => {
+              if (event.key === 'Enter') handleSave()
+            }}
+          />
+          {editedTimer && (
+            <>
+              <TextField
+                fullWidth
+                margin="dense"
+                label="Overtime limit (minutes)"
+                placeholder="No limit"
+                type="number"
+                value={overtimeCapMinutes}
+                onChange={(event: any) => setOvertimeCapMinutes(event.target.value)}
+                inputProps={{ min: 0, step: 1 }}
+                helperText="Stop counting overtime after this long"
+              />
+              <TextField
+                fullWidth
+                margin="dense"
+                label="Warnings (minutes left)"
+                placeholder="No warnings"
+                value={warningMinutes}
+                onChange={(event: any) => setWarningMinutes(event.target.value)}
+                helperText="Comma-separated, e.g. 5, 2, 0.5"
+              />
+              {editedTimer.overtimeLog.length > 0 && (
+                <>
+                  <Typography variant="subtitle2" sx={{ mt: 2 }}>
+                    Recent overtime
+                  </Typography>
+                  <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                    {[...editedTimer.overtimeLog].reverse().map((record) => (
+                      <Typography component="li" variant="body2" color="text.secondary" key={record.endedAt}>
+                        {new Date(record.endedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}: {formatDuration(record.overtimeMs)} over
+                      </Typography>
+                    ))}
+                  </Box>
+                </>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {dialog.type === 'edit' && (
+            <Button color="error" onClick={handleRemove} disabled={!canRemove} sx={{ mr: 'auto' }}>
+              Remove
+            </Button>
+          )}
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={!label.trim()}>
+            {dialog.type === 'add' ? 'Add' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <RoutineDialog
+        timerId={activeTimerId}
+        open={isRoutineDialogOpen}
+        onClose={() => setRoutineDialogOpen(false)}
+      />
+    </Box>
+  )
+}
+
+// Connect the TimerTabs component to Redux Zero
+export const TimerTabs = connect(
+  ({ timers, roles, ui }: AppState) => ({
+    timers,
+    activeTimerId: ui.activeTimerId,
+    canControl: canDeviceControl(roles, DEVICE_ID, DEVICE_KEY)
+  }),
+  actions
+)(TimerTabsComponent)
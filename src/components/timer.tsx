@@ -1,45 +1,112 @@
-import { useEffect, useCallback } from 'preact/hooks'
+import { useEffect, useCallback, useState } from 'preact/hooks'
 import { connect } from 'redux-zero/preact'
 import { useDynamicFavicon } from '../hooks/use-dynamic-favicon'
 import { useWakeLock } from '../hooks/use-wake-lock'
+import { useParentalLock } from '../contexts/parental-lock-context'
 import { 
+  Alert,
   Box, 
   Button, 
   Typography, 
   CircularProgress,
-  Stack
+  LinearProgress,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material'
 import { 
   PlayArrow, 
   Pause, 
   Refresh, 
   Add as AddIcon,
-  Remove as RemoveIcon
+  Remove as RemoveIcon,
+  SkipNext as SkipNextIcon,
+  Flag as FlagIcon,
+  Tune as TuneIcon,
+  Schedule as ScheduleIcon,
+  Timer as TimerIcon,
+  NotificationsOff as NotificationsOffIcon
 } from '@mui/icons-material'
+import { IntervalDialog } from './interval-dialog'
+import { ScheduleDialog, formatClockTime } from './schedule-dialog'
+import { UndoControls } from './undo-controls'
+import { DurationDialog } from './duration-dialog'
 import actions from '../store/actions'
-import type { AppState } from '../store'
+import { clockNow } from '../store/clock'
+import { unlockAudio } from '../audio/sounds'
+import { DEVICE_ID, DEVICE_KEY } from '../config/config'
+import { canDeviceControl } from '../store/roles'
+import { getActiveWarning, getOvertimeMs, getRemainingMs, getRemainingSeconds, isCompletionAcknowledged, MIN_DURATION_MS } from '../store'
+import type { AppState, IntervalPhase, TimerMode, TimerState, WarningEvent } from '../store'
+
+// Display name and ring color for each interval phase
+const PHASE_LABELS: Record<IntervalPhase, string> = {
+  work: 'Work',
+  shortBreak: 'Break',
+  longBreak: 'Long break'
+}
+
+const PHASE_COLORS: Record<IntervalPhase, string> = {
+  work: '#ef4444', // red, same as a running countdown
+  shortBreak: '#22c55e', // green
+  longBreak: '#8b5cf6' // purple
+}
+
+// Describe a warning threshold, e.g. "5 minutes left", "1 minute 30 seconds left"
+export const formatTimeLeft = (thresholdMs: number) => {
+  const totalSeconds = Math.round(thresholdMs / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  const parts = [
+    minutes > 0 ? `${minutes} minute${minutes === 1 ? '' : 's'}` : '',
+    seconds > 0 ? `${seconds} second${seconds === 1 ? '' : 's'}` : ''
+  ].filter(Boolean)
+  return `${parts.join(' ')} left`
+}
 
 interface TimerProps {
+  timerId: string
   initialMinutes?: number
   // Redux Zero props
-  timer: AppState['timer']
-  startTimer: () => void
-  pauseTimer: () => void
-  resetTimer: (initialMinutes?: number) => void
-  addTime: (minutes: number) => void
-  removeTime: (minutes: number) => void
+  timer: TimerState
+  warning: WarningEvent | undefined
+  isAcknowledged: boolean // Whether this device has silenced the completion alarm
+  canControl: boolean // False on a display - it shows the dial but can't change the timer
+  startTimer: (timerId: string) => void
+  pauseTimer: (timerId: string) => void
+  resetTimer: (timerId: string, initialMinutes?: number) => void
+  addTime: (timerId: string, minutes: number) => void
+  removeTime: (timerId: string, minutes: number) => void
+  skipRoutineStep: (timerId: string) => void
+  setTimerMode: (timerId: string, mode: TimerMode) => void
+  recordLap: (timerId: string) => void
+  dismissWarning: (timerId: string) => void
+  acknowledgeCompletion: (timerId: string) => void
 }
 
 function TimerComponent({ 
+  timerId,
   initialMinutes = 5,
   timer,
+  warning,
+  isAcknowledged,
+  canControl,
   startTimer,
   pauseTimer,
   resetTimer,
   addTime,
-  removeTime
+  removeTime,
+  skipRoutineStep,
+  setTimerMode,
+  recordLap,
+  dismissWarning,
+  acknowledgeCompletion
 }: TimerProps) {
   const { setWakeLockActive, isSupported: wakeLockSupported } = useWakeLock()
+  const { requireUnlock } = useParentalLock()
+  const [isIntervalDialogOpen, setIntervalDialogOpen] = useState(false)
+  const [isScheduleDialogOpen, setScheduleDialogOpen] = useState(false)
+  const [isDurationDialogOpen, setDurationDialogOpen] = useState(false)
   
   // console.log('🔍 Timer render - Redux state:', timer, 'UI state:', ui)
 
@@ -52,55 +119,73 @@ function TimerComponent({
   }, [timer.isRunning, setWakeLockActive, wakeLockSupported])
 
   // Define handleReset
-  const handleReset = useCallback(() => {
+  const handleReset = useCallback(() => requireUnlock(() => {
     console.log('🔄 Resetting timer')
-    resetTimer(initialMinutes)
-  }, [initialMinutes, resetTimer])
+    resetTimer(timerId, initialMinutes)
+  }), [timerId, initialMinutes, resetTimer, requireUnlock])
 
   // Define handleRestart - resets and starts the timer with current duration
-  const handleRestart = useCallback(() => {
+  const handleRestart = useCallback(() => requireUnlock(() => {
     console.log('🔄 Restarting timer with current duration')
     const currentMinutes = timer.durationMs / (60 * 1000)
-    resetTimer(currentMinutes)
+    resetTimer(timerId, currentMinutes)
     // Use setTimeout to ensure the reset completes before starting
     setTimeout(() => {
-      startTimer()
+      startTimer(timerId)
     }, 0)
-  }, [timer.durationMs, resetTimer, startTimer])
+  }), [timerId, timer.durationMs, resetTimer, startTimer, requireUnlock])
 
   // Calculate derived values from timestamps
   const totalSeconds = Math.floor(timer.durationMs / 1000)
   
-  // Calculate remaining time based on current state
-  let remainingMs: number
-  
-  // Simplified logic: prioritize explicit states over timestamp calculations
-  if (timer.isRunning && timer.endTime) {
-    // Timer is running - calculate remaining time from end time using real-time
-    remainingMs = Math.max(0, timer.endTime - Date.now())
-  } else if (timer.pausedRemainingMs !== undefined && timer.pausedRemainingMs !== null) {
-    // Timer was paused - use the stored paused remaining time
-    remainingMs = timer.pausedRemainingMs
-  } else if (timer.isComplete) {
-    // Timer is explicitly marked as complete - show 0 remaining time
-    remainingMs = 0
-  } else {
-    // Timer not started, reset, or in any other state - use full duration
-    remainingMs = timer.durationMs
-  }
-  
-  // Calculate remaining seconds with ceiling logic
-  // 60000ms -> 60s (1:00), 59999ms -> 60s (1:00), 1000ms -> 1s (0:01), 999ms -> 1s (0:01)
-  const remainingSeconds = remainingMs <= 0 ? 0 : Math.max(1, Math.ceil(remainingMs / 1000))
+  // Calculate remaining time based on current state (shared with spoken announcements)
+  const remainingMs = getRemainingMs(timer)
+  const remainingSeconds = getRemainingSeconds(remainingMs)
+
+  // Stopwatch counts up from startTime (or holds the elapsed time it was paused at)
+  const isStopwatch = timer.mode === 'stopwatch'
+  const elapsedMs = timer.isRunning && timer.startTime ? Math.max(0, clockNow() - timer.startTime) : (timer.pausedElapsedMs ?? 0)
+  const elapsedSeconds = Math.floor(elapsedMs / 1000)
 
   const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60)
+    const hours = Math.floor(seconds / 3600)
+    const mins = Math.floor((seconds % 3600) / 60)
     const secs = seconds % 60
+    if (hours > 0) {
+      return `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    }
     return `${mins}:${secs.toString().padStart(2, '0')}`
   }
 
-  const progress = totalSeconds > 0 ? ((totalSeconds - remainingSeconds) / totalSeconds) * 100 : 0
-  const progressColor = timer.isComplete ? '#3b82f6' : timer.isPaused ? '#d1d5db' : '#ef4444' // blue when complete, light grey when paused, red while running
+  // Routine progress: finished steps plus the time spent on the current one
+  const routine = timer.routine
+  const currentStep = routine?.steps[routine.currentStepIndex]
+  const nextStep = routine?.steps[routine.currentStepIndex + 1]
+  const routineTotalMs = routine ? routine.steps.reduce((sum, step) => sum + step.durationMs, 0) : 0
+  const routineElapsedMs = routine
+    ? routine.steps.slice(0, routine.currentStepIndex).reduce((sum, step) => sum + step.durationMs, 0) + (timer.durationMs - remainingMs)
+    : 0
+  const routineProgress = routineTotalMs > 0 ? Math.min(100, (routineElapsedMs / routineTotalMs) * 100) : 0
+
+  // Interval cycle: the phase name doubles as the step name inside the ring
+  const interval = timer.mode === 'interval' ? timer.interval : undefined
+  const stepLabel = currentStep?.name ?? (interval ? PHASE_LABELS[interval.phase] : undefined)
+
+  // Wall-clock times: when a scheduled timer starts, or when a running countdown ends
+  const scheduleCaption = !timer.isRunning && timer.scheduledStartTime !== null
+    ? `starts ${formatClockTime(timer.scheduledStartTime)}`
+    : timer.isRunning && timer.endTime ? `ends ${formatClockTime(timer.endTime)}` : undefined
+
+  // Overtime: a finished countdown keeps counting up from endTime (until its cap, if any)
+  const overtimeSeconds = Math.floor(getOvertimeMs(timer) / 1000)
+  const isOvertime = timer.isComplete && overtimeSeconds > 0
+  const isOvertimeCapped = isOvertime && timer.overtimeCapMs !== null && overtimeSeconds * 1000 >= timer.overtimeCapMs
+
+  // A stopwatch has no end, so its ring fills once per minute and starts over
+  const progress = isStopwatch
+    ? ((elapsedSeconds % 60) / 60) * 100
+    : totalSeconds > 0 ? ((totalSeconds - remainingSeconds) / totalSeconds) * 100 : 0
+  const progressColor = isOvertime ? '#f59e0b' : timer.isComplete ? '#3b82f6' : timer.isPaused ? '#d1d5db' : interval ? PHASE_COLORS[interval.phase] : '#ef4444' // amber in overtime, blue when complete, light grey when paused, phase color or red while running
 
   // State changes are now handled globally via Redux Zero - no need for callbacks
 
@@ -108,31 +193,57 @@ function TimerComponent({
   useDynamicFavicon({ 
     progress, 
     isRunning: timer.isRunning, 
-    isComplete: timer.isComplete 
+    isComplete: timer.isComplete,
+    isOvertime
   })
 
   const handleStart = () => {
     console.log('▶️ Starting timer via Redux action')
-    startTimer()
+    startTimer(timerId)
   }
 
-  const handlePause = () => {
+  // Pausing, changing the time and the other settings below need the parental PIN when one is set
+  const handlePause = () => requireUnlock(() => {
     console.log('⏸️ Pausing timer via Redux action')
-    pauseTimer()
-  }
+    pauseTimer(timerId)
+  })
 
-  const handleAddTime = (minutes: number) => {
+  const handleAddTime = (minutes: number) => requireUnlock(() => {
     console.log(`➕ Adding ${minutes} minutes via Redux action`)
-    addTime(minutes)
-  }
+    addTime(timerId, minutes)
+  })
 
-  const handleRemoveTime = (minutes: number) => {
+  const handleRemoveTime = (minutes: number) => requireUnlock(() => {
     console.log(`➖ Removing ${minutes} minutes via Redux action`)
-    removeTime(minutes)
+    removeTime(timerId, minutes)
+  })
+
+  const handleLap = () => {
+    console.log('🏁 Recording lap via Redux action')
+    recordLap(timerId)
   }
 
+  const handleModeChange = (_event: any, mode: TimerMode | null) => {
+    if (!mode) return
+    requireUnlock(() => {
+      console.log(`🔀 Switching to ${mode} mode via Redux action`)
+      setTimerMode(timerId, mode)
+    })
+  }
+
+  const handleStopAlarm = () => {
+    console.log('🔕 Acknowledging completion via Redux action')
+    acknowledgeCompletion(timerId)
+  }
+
+  const handleSkipStep = () => requireUnlock(() => {
+    console.log('⏭️ Skipping routine step via Redux action')
+    skipRoutineStep(timerId)
+  })
+
   return (
     <Box 
+      onPointerDown={unlockAudio} // Browsers only allow sound after a user interaction
       sx={{ 
         width: '100%',
         height: '100%',
@@ -203,6 +314,12 @@ function TimerComponent({
                 color: progressColor,
                 width: '100%',
                 height: '100%',
+                // Pulse the ring while a time-remaining warning is showing
+                animation: warning ? 'warningPulse 1s ease-in-out infinite' : 'none',
+                '@keyframes warningPulse': {
+                  '0%, 100%': { opacity: 1 },
+                  '50%': { opacity: 0.4 },
+                },
                 '& .MuiCircularProgress-circle': {
                   strokeLinecap: 'round',
                   transition: 'stroke-dashoffset 0.3s ease, stroke 0.5s ease',
@@ -229,7 +346,13 @@ function TimerComponent({
                 fontFamily: 'Courier New, monospace',
               }}
               role="timer"
-              aria-label={timer.isComplete ? "Time's up!" : `Timer showing ${formatTime(remainingSeconds)} remaining out of ${formatTime(totalSeconds)} total`}
+              aria-label={
+                isStopwatch
+                  ? `${timer.label} stopwatch showing ${formatTime(elapsedSeconds)} elapsed`
+                  : timer.isComplete
+                    ? `${timer.label}: Time's up!${isOvertime ? ` ${formatTime(overtimeSeconds)} over` : ''}`
+                    : `${timer.label} showing ${formatTime(remainingSeconds)} remaining out of ${formatTime(totalSeconds)} total`
+              }
               aria-live="polite"
             >
               {timer.isComplete ? (
@@ -255,7 +378,8 @@ function TimerComponent({
                     component="div"
                     sx={{ 
                       fontSize: 'calc(var(--circle-size) * 0.06)',
-                      color: 'text.secondary',
+                      fontWeight: isOvertime ? 'bold' : undefined,
+                      color: isOvertime ? '#f59e0b' : 'text.secondary',
                       mt: 0.5,
                       fontFamily: 'Courier New, monospace',
                       '@media (max-width:480px)': {
@@ -263,11 +387,30 @@ function TimerComponent({
                       },
                     }}
                   >
-                    / {formatTime(totalSeconds)}
+                    {isOvertime
+                      ? `+${formatTime(overtimeSeconds)} over${isOvertimeCapped ? ' (max)' : ''}`
+                      : `/ ${formatTime(totalSeconds)}`}
                   </Typography>
                 </>
               ) : (
                 <>
+                  {stepLabel && (
+                    <Typography 
+                      variant="body1" 
+                      component="div"
+                      sx={{ 
+                        fontSize: 'calc(var(--circle-size) * 0.06)',
+                        fontWeight: 'bold',
+                        color: 'text.secondary',
+                        mb: 0.5,
+                        '@media (max-width:480px)': {
+                          fontSize: 'calc(var(--circle-size) * 0.08)',
+                        },
+                      }}
+                    >
+                      {stepLabel}
+                    </Typography>
+                  )}
                   <Typography 
                     variant="h2" 
                     component="div"
@@ -282,7 +425,7 @@ function TimerComponent({
                       },
                     }}
                   >
-                    {formatTime(remainingSeconds)}
+                    {formatTime(isStopwatch ? elapsedSeconds : remainingSeconds)}
                   </Typography>
                   <Typography 
                     variant="body1" 
@@ -297,8 +440,26 @@ function TimerComponent({
                       },
                     }}
                   >
-                    / {formatTime(totalSeconds)}
+                    {isStopwatch
+                      ? timer.laps.length > 0 ? `Lap ${timer.laps.length + 1}` : 'stopwatch'
+                      : `/ ${formatTime(totalSeconds)}`}
                   </Typography>
+                  {scheduleCaption && (
+                    <Typography 
+                      variant="body2" 
+                      component="div"
+                      sx={{ 
+                        fontSize: 'calc(var(--circle-size) * 0.045)',
+                        color: 'text.secondary',
+                        mt: 0.5,
+                        '@media (max-width:480px)': {
+                          fontSize: 'calc(var(--circle-size) * 0.06)',
+                        },
+                      }}
+                    >
+                      {scheduleCaption}
+                    </Typography>
+                  )}
                 </>
               )}
             </Box>
@@ -331,240 +492,442 @@ function TimerComponent({
             },
           }}
         >
-            {/* Timer Adjustment Buttons */}
-            <Stack 
-              direction="row" 
-              spacing={0.5} 
-              justifyContent="center" 
-              flexWrap="wrap"
-              sx={{
-                gap: 0.5,
-                '@media (max-width:480px)': {
-                  gap: 0.375,
-                },
-                '@media (max-width:360px)': {
-                  gap: 0.25,
-                },
-                '@media (max-height:600px) and (orientation: landscape)': {
-                  gap: 0.5,
-                  justifyContent: 'center',
-                },
-              }}
-            >
-              <Button 
-                variant="contained"
-                color="error"
-                size="small"
-                startIcon={<RemoveIcon sx={{ fontSize: '16px !important' }} />}
-                onClick={() => handleRemoveTime(5)}
-                disabled={totalSeconds <= 300 || timer.isComplete}
-                aria-label="Remove 5 minutes from timer"
-                sx={{
-                  minWidth: '60px',
-                  px: 1,
-                  fontSize: '0.875rem',
-                  '@media (max-width:480px)': {
-                    minWidth: '55px',
-                    px: 0.75,
-                    fontSize: '0.8rem',
-                  },
-                  '@media (max-width:360px)': {
-                    minWidth: '50px',
-                    px: 0.5,
-                    fontSize: '0.75rem',
-                  },
-                  '@media (max-height:600px) and (orientation: landscape)': {
-                    minWidth: '70px',
-                    fontSize: '0.8rem',
-                  },
-                }}
-              >
-                5m
-              </Button>
-              <Button 
-                variant="contained"
-                color="error"
-                size="small"
-                startIcon={<RemoveIcon sx={{ fontSize: '16px !important' }} />}
-                onClick={() => handleRemoveTime(1)}
-                disabled={totalSeconds <= 60 || timer.isComplete}
-                aria-label="Remove 1 minute from timer"
-                sx={{
-                  minWidth: '60px',
-                  px: 1,
-                  fontSize: '0.875rem',
-                  '@media (max-width:480px)': {
-                    minWidth: '55px',
-                    px: 0.75,
-                    fontSize: '0.8rem',
-                  },
-                  '@media (max-width:360px)': {
-                    minWidth: '50px',
-                    px: 0.5,
-                    fontSize: '0.75rem',
-                  },
-                  '@media (max-height:600px) and (orientation: landscape)': {
-                    minWidth: '70px',
-                    fontSize: '0.8rem',
-                  },
-                }}
+            {/* Time-remaining Warning */}
+            {warning && (
+              <Alert
+                severity="warning"
+                variant="filled"
+                onClose={() => dismissWarning(timerId)}
+                sx={{ alignSelf: 'center' }}
               >
-                1m
-              </Button>
-              <Button 
-                variant="contained"
-                color="secondary"
+                {formatTimeLeft(warning.thresholdMs)}
+              </Alert>
+            )}
+
+            {/* Mode Switch */}
+            {canControl && (
+              <ToggleButtonGroup
+                value={timer.mode}
+                exclusive
                 size="small"
-                startIcon={<AddIcon sx={{ fontSize: '16px !important' }} />}
-                onClick={() => handleAddTime(1)}
-                disabled={timer.isComplete}
-                aria-label="Add 1 minute to timer"
-                sx={{
-                  minWidth: '60px',
-                  px: 1,
-                  fontSize: '0.875rem',
-                  '@media (max-width:480px)': {
-                    minWidth: '55px',
-                    px: 0.75,
-                    fontSize: '0.8rem',
-                  },
-                  '@media (max-width:360px)': {
-                    minWidth: '50px',
-                    px: 0.5,
-                    fontSize: '0.75rem',
-                  },
-                  '@media (max-height:600px) and (orientation: landscape)': {
-                    minWidth: '70px',
-                    fontSize: '0.8rem',
-                  },
-                }}
+                onChange={handleModeChange}
+                aria-label="Timer mode"
+                sx={{ alignSelf: 'center' }}
               >
-                1m
-              </Button>
-              <Button 
-                variant="contained"
-                color="secondary"
-                size="small"
-                startIcon={<AddIcon sx={{ fontSize: '16px !important' }} />}
-                onClick={() => handleAddTime(5)}
-                disabled={timer.isComplete}
-                aria-label="Add 5 minutes to timer"
+                <ToggleButton value="countdown" aria-label="Countdown timer">Timer</ToggleButton>
+                <ToggleButton value="stopwatch" aria-label="Stopwatch">Stopwatch</ToggleButton>
+                <ToggleButton value="interval" aria-label="Work and break intervals">Intervals</ToggleButton>
+              </ToggleButtonGroup>
+            )}
+
+            {/* Interval Cycle */}
+            {interval && (
+              <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
+                <Typography variant="body2" color="text.secondary">
+                  Round {interval.currentRound} of {interval.rounds}
+                  {interval.phase === 'work'
+                    ? ` · Next: ${interval.currentRound < interval.rounds ? PHASE_LABELS.shortBreak : PHASE_LABELS.longBreak}`
+                    : interval.phase === 'shortBreak' ? ` · Next: ${PHASE_LABELS.work}` : ' · Last phase'}
+                </Typography>
+                {canControl && (
+                  <>
+                    <Button
+                      size="small"
+                      startIcon={<TuneIcon />}
+                      onClick={() => requireUnlock(() => setIntervalDialogOpen(true))}
+                      aria-label="Edit work and break cycle"
+                    >
+                      Cycle
+                    </Button>
+                    <IntervalDialog
+                      timerId={timerId}
+                      open={isIntervalDialogOpen}
+                      onClose={() => setIntervalDialogOpen(false)}
+                    />
+                  </>
+                )}
+              </Box>
+            )}
+
+            {/* Routine Progress */}
+            {routine && currentStep && (
+              <Box sx={{ width: '100%', maxWidth: 400, alignSelf: 'center' }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1, mb: 0.5 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    {routine.name}: step {routine.currentStepIndex + 1} of {routine.steps.length}
+                    {nextStep ? ` · Next: ${nextStep.name}` : ' · Last step'}
+                  </Typography>
+                  {canControl && (
+                    <Button
+                      size="small"
+                      startIcon={<SkipNextIcon />}
+                      onClick={handleSkipStep}
+                      disabled={!nextStep}
+                      aria-label={nextStep ? `Skip to ${nextStep.name}` : 'No more steps'}
+                    >
+                      Skip
+                    </Button>
+                  )}
+                </Box>
+                <LinearProgress
+                  variant="determinate"
+                  value={routineProgress}
+                  aria-label={`${routine.name} progress`}
+                  sx={{ height: 6, borderRadius: 3 }}
+                />
+              </Box>
+            )}
+
+            {/* Timer Adjustment Buttons (a stopwatch has nothing to adjust) */}
+            {!isStopwatch && canControl && (
+              <Stack 
+                direction="row" 
+                spacing={0.5} 
+                justifyContent="center" 
+                flexWrap="wrap"
                 sx={{
-                  minWidth: '60px',
-                  px: 1,
-                  fontSize: '0.875rem',
+                  gap: 0.5,
                   '@media (max-width:480px)': {
-                    minWidth: '55px',
-                    px: 0.75,
-                    fontSize: '0.8rem',
+                    gap: 0.375,
                   },
                   '@media (max-width:360px)': {
-                    minWidth: '50px',
-                    px: 0.5,
-                    fontSize: '0.75rem',
+                    gap: 0.25,
                   },
                   '@media (max-height:600px) and (orientation: landscape)': {
-                    minWidth: '70px',
-                    fontSize: '0.8rem',
+                    gap: 0.5,
+                    justifyContent: 'center',
                   },
                 }}
               >
-                5m
-              </Button>
-            </Stack>
-
-            {/* Control Buttons */}
-            <Stack 
-              direction="row" 
-              spacing={2} 
-              justifyContent="center"
-              sx={{
-                '@media (max-width:480px)': {
-                  gap: 1.5,
-                },
-                '@media (max-height:600px) and (orientation: landscape)': {
-                  gap: 1.5,
-                  justifyContent: 'center',
-                },
-              }}
-            >
-              {timer.isComplete ? (
                 <Button 
                   variant="contained"
-                  color="primary"
-                  size="large"
-                  startIcon={<Refresh />}
-                  onClick={handleRestart}
-                  aria-label="Restart timer"
+                  color="error"
+                  size="small"
+                  startIcon={<RemoveIcon sx={{ fontSize: '16px !important' }} />}
+                  onClick={() => handleRemoveTime(5)}
+                  disabled={remainingMs <= MIN_DURATION_MS || timer.isComplete}
+                  aria-label="Remove 5 minutes from timer"
                   sx={{
+                    minWidth: '60px',
+                    px: 1,
+                    fontSize: '0.875rem',
+                    '@media (max-width:480px)': {
+                      minWidth: '55px',
+                      px: 0.75,
+                      fontSize: '0.8rem',
+                    },
+                    '@media (max-width:360px)': {
+                      minWidth: '50px',
+                      px: 0.5,
+                      fontSize: '0.75rem',
+                    },
                     '@media (max-height:600px) and (orientation: landscape)': {
-                      minWidth: 'auto',
+                      minWidth: '70px',
+                      fontSize: '0.8rem',
                     },
                   }}
                 >
-                  Restart
+                  5m
                 </Button>
-              ) : !timer.isRunning ? (
                 <Button 
                   variant="contained"
-                  color="primary"
-                  size="large"
-                  startIcon={<PlayArrow />}
-                  onClick={handleStart}
-                  disabled={remainingSeconds === 0}
-                  aria-label={`Start timer for ${formatTime(totalSeconds)}`}
+                  color="error"
+                  size="small"
+                  startIcon={<RemoveIcon sx={{ fontSize: '16px !important' }} />}
+                  onClick={() => handleRemoveTime(1)}
+                  disabled={remainingMs <= MIN_DURATION_MS || timer.isComplete}
+                  aria-label="Remove 1 minute from timer"
                   sx={{
+                    minWidth: '60px',
+                    px: 1,
+                    fontSize: '0.875rem',
+                    '@media (max-width:480px)': {
+                      minWidth: '55px',
+                      px: 0.75,
+                      fontSize: '0.8rem',
+                    },
+                    '@media (max-width:360px)': {
+                      minWidth: '50px',
+                      px: 0.5,
+                      fontSize: '0.75rem',
+                    },
                     '@media (max-height:600px) and (orientation: landscape)': {
-                      minWidth: 'auto',
+                      minWidth: '70px',
+                      fontSize: '0.8rem',
                     },
                   }}
                 >
-                  Start
+                  1m
                 </Button>
-              ) : (
                 <Button 
                   variant="contained"
-                  color="warning"
-                  size="large"
-                  startIcon={<Pause />}
-                  onClick={handlePause}
-                  aria-label="Pause timer"
+                  color="secondary"
+                  size="small"
+                  startIcon={<AddIcon sx={{ fontSize: '16px !important' }} />}
+                  onClick={() => handleAddTime(1)}
+                  aria-label="Add 1 minute to timer"
                   sx={{
+                    minWidth: '60px',
+                    px: 1,
+                    fontSize: '0.875rem',
+                    '@media (max-width:480px)': {
+                      minWidth: '55px',
+                      px: 0.75,
+                      fontSize: '0.8rem',
+                    },
+                    '@media (max-width:360px)': {
+                      minWidth: '50px',
+                      px: 0.5,
+                      fontSize: '0.75rem',
+                    },
                     '@media (max-height:600px) and (orientation: landscape)': {
-                      minWidth: 'auto',
+                      minWidth: '70px',
+                      fontSize: '0.8rem',
                     },
                   }}
                 >
-                  Pause
+                  1m
                 </Button>
-              )}
-              <Button 
-                variant="contained"
-                sx={{ 
-                  backgroundColor: 'grey.500',
-                  '&:hover': {
-                    backgroundColor: 'grey.600',
+                <Button 
+                  variant="contained"
+                  color="secondary"
+                  size="small"
+                  startIcon={<AddIcon sx={{ fontSize: '16px !important' }} />}
+                  onClick={() => handleAddTime(5)}
+                  aria-label="Add 5 minutes to timer"
+                  sx={{
+                    minWidth: '60px',
+                    px: 1,
+                    fontSize: '0.875rem',
+                    '@media (max-width:480px)': {
+                      minWidth: '55px',
+                      px: 0.75,
+                      fontSize: '0.8rem',
+                    },
+                    '@media (max-width:360px)': {
+                      minWidth: '50px',
+                      px: 0.5,
+                      fontSize: '0.75rem',
+                    },
+                    '@media (max-height:600px) and (orientation: landscape)': {
+                      minWidth: '70px',
+                      fontSize: '0.8rem',
+                    },
+                  }}
+                >
+                  5m
+                </Button>
+              </Stack>
+            )}
+
+            {/* Silence the completion alarm on this device */}
+            {timer.isComplete && !isAcknowledged && (
+              <Button
+                variant="outlined"
+                color="warning"
+                startIcon={<NotificationsOffIcon />}
+                onClick={handleStopAlarm}
+                aria-label="Stop the alarm on this device"
+                sx={{ alignSelf: 'center' }}
+              >
+                Stop alarm
+              </Button>
+            )}
+
+            {/* Control Buttons */}
+            {canControl ? (
+              <Stack 
+                direction="row" 
+                spacing={2} 
+                justifyContent="center"
+                sx={{
+                  '@media (max-width:480px)': {
+                    gap: 1.5,
                   },
                   '@media (max-height:600px) and (orientation: landscape)': {
-                    minWidth: 'auto',
+                    gap: 1.5,
+                    justifyContent: 'center',
                   },
                 }}
-                size="large"
-                startIcon={<Refresh />}
-                onClick={handleReset}
-                aria-label="Reset timer to original duration"
               >
-                Reset
-              </Button>
-            </Stack>
+                {timer.isComplete ? (
+                  <Button 
+                    variant="contained"
+                    color="primary"
+                    size="large"
+                    startIcon={<Refresh />}
+                    onClick={handleRestart}
+                    aria-label="Restart timer"
+                    sx={{
+                      '@media (max-height:600px) and (orientation: landscape)': {
+                        minWidth: 'auto',
+                      },
+                    }}
+                  >
+                    Restart
+                  </Button>
+                ) : !timer.isRunning ? (
+                  <Button 
+                    variant="contained"
+                    color="primary"
+                    size="large"
+                    startIcon={<PlayArrow />}
+                    onClick={handleStart}
+                    disabled={!isStopwatch && remainingSeconds === 0}
+                    aria-label={isStopwatch ? 'Start stopwatch' : `Start timer for ${formatTime(totalSeconds)}`}
+                    sx={{
+                      '@media (max-height:600px) and (orientation: landscape)': {
+                        minWidth: 'auto',
+                      },
+                    }}
+                  >
+                    Start
+                  </Button>
+                ) : (
+                  <Button 
+                    variant="contained"
+                    color="warning"
+                    size="large"
+                    startIcon={<Pause />}
+                    onClick={handlePause}
+                    aria-label="Pause timer"
+                    sx={{
+                      '@media (max-height:600px) and (orientation: landscape)': {
+                        minWidth: 'auto',
+                      },
+                    }}
+                  >
+                  Pause
+                  </Button>
+                )}
+                {isStopwatch && (
+                  <Button 
+                    variant="contained"
+                    color="secondary"
+                    size="large"
+                    startIcon={<FlagIcon />}
+                    onClick={handleLap}
+                    disabled={!timer.isRunning}
+                    aria-label="Record lap"
+                    sx={{
+                      '@media (max-height:600px) and (orientation: landscape)': {
+                        minWidth: 'auto',
+                      },
+                    }}
+                  >
+                    Lap
+                  </Button>
+                )}
+                <Button 
+                  variant="contained"
+                  sx={{ 
+                    backgroundColor: 'grey.500',
+                    '&:hover': {
+                      backgroundColor: 'grey.600',
+                    },
+                    '@media (max-height:600px) and (orientation: landscape)': {
+                      minWidth: 'auto',
+                    },
+                  }}
+                  size="large"
+                  startIcon={<Refresh />}
+                  onClick={handleReset}
+                  aria-label="Reset timer to original duration"
+                >
+                  Reset
+                </Button>
+              </Stack>
+            ) : (
+              <Typography variant="body2" color="text.secondary" sx={{ alignSelf: 'center' }}>
+                View only - this device is the kid's display
+              </Typography>
+            )}
+
+            {/* Exact Duration, Wall-clock Schedule, Undo/Redo */}
+            {canControl && (
+              <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', gap: 0.5 }}>
+                {timer.mode === 'countdown' && !timer.routine && (
+                  <>
+                    <Button
+                      size="small"
+                      startIcon={<TimerIcon />}
+                      onClick={() => requireUnlock(() => setDurationDialogOpen(true))}
+                      aria-label="Set an exact duration"
+                    >
+                      Set time
+                    </Button>
+                    <DurationDialog
+                      timerId={timerId}
+                      open={isDurationDialogOpen}
+                      onClose={() => setDurationDialogOpen(false)}
+                    />
+                  </>
+                )}
+                <Button
+                  size="small"
+                  startIcon={<ScheduleIcon />}
+                  onClick={() => requireUnlock(() => setScheduleDialogOpen(true))}
+                  aria-label="Schedule a start or end time"
+                >
+                  {timer.scheduledStartTime !== null ? `Starts at ${formatClockTime(timer.scheduledStartTime)}` : 'Schedule'}
+                </Button>
+                <ScheduleDialog
+                  timerId={timerId}
+                  open={isScheduleDialogOpen}
+                  onClose={() => setScheduleDialogOpen(false)}
+                />
+                <UndoControls />
+              </Box>
+            )}
+
+            {/* Lap Times (newest first) */}
+            {isStopwatch && timer.laps.length > 0 && (
+              <Box
+                component="ol"
+                reversed
+                aria-label="Lap times"
+                sx={{
+                  alignSelf: 'center',
+                  width: '100%',
+                  maxWidth: 320,
+                  maxHeight: 120,
+                  overflowY: 'auto',
+                  m: 0,
+                  pl: 0,
+                  listStyle: 'none',
+                  fontFamily: 'Courier New, monospace',
+                }}
+              >
+                {timer.laps.map((splitMs, index) => ({
+                  lapNumber: index + 1,
+                  lapMs: splitMs - (index > 0 ? timer.laps[index - 1] : 0),
+                  splitMs
+                })).reverse().map(({ lapNumber, lapMs, splitMs }) => (
+                  <Box
+                    component="li"
+                    key={lapNumber}
+                    sx={{ display: 'flex', justifyContent: 'space-between', color: 'text.secondary', py: 0.25 }}
+                  >
+                    <span>Lap {lapNumber}</span>
+                    <span>{formatTime(Math.floor(lapMs / 1000))}</span>
+                    <span>{formatTime(Math.floor(splitMs / 1000))}</span>
+                  </Box>
+                ))}
+              </Box>
+            )}
           </Stack>
         </Box>
       </Box>
   )
 }
 
-// Connect the Timer component to Redux Zero
+// Connect the Timer component to Redux Zero, selecting the timer by id
 export const Timer = connect(
-  ({ timer }: AppState) => ({ timer }),
+  ({ timers, roles, warnings, ui }: AppState, { timerId }: { timerId: string }) => ({
+    timer: timers[timerId],
+    warning: getActiveWarning(warnings, timers[timerId]),
+    isAcknowledged: isCompletionAcknowledged(ui, timers[timerId]),
+    canControl: canDeviceControl(roles, DEVICE_ID, DEVICE_KEY)
+  }),
   actions
 )(TimerComponent)
\ No newline at end of file
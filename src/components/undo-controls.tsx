@@ -0,0 +1,103 @@
+import { useEffect } from 'preact/hooks'
+import { connect } from 'redux-zero/preact'
+import {
+  Button,
+  IconButton,
+  Snackbar,
+  Tooltip
+} from '@mui/material'
+import {
+  Undo as UndoIcon,
+  Redo as RedoIcon
+} from '@mui/icons-material'
+import { useParentalLock } from '../contexts/parental-lock-context'
+import actions from '../store/actions'
+import type { AppState } from '../store'
+
+interface UndoControlsProps {
+  // Redux Zero props
+  undoHistory: AppState['undo']
+  undo: () => void
+  redo: () => void
+  dismissUndoNotice: () => void
+}
+
+// How long the Undo snackbar stays up after a reset or removing time
+const NOTICE_DURATION_MS = 6000
+
+function UndoControlsComponent({
+  undoHistory,
+  undo,
+  redo,
+  dismissUndoNotice
+}: UndoControlsProps) {
+  const { requireUnlock } = useParentalLock()
+  const lastUndo = undoHistory.past[undoHistory.past.length - 1]
+  const lastRedo = undoHistory.future[undoHistory.future.length - 1]
+
+  // Undoing can reset or pause a timer, so it's behind the parental lock too
+  const handleUndo = () => requireUnlock(undo)
+  const handleRedo = () => requireUnlock(redo)
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo (text fields keep their own undo)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+      const target = event.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        handleUndo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        handleRedo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo, requireUnlock])
+
+  return (
+    <>
+      <Tooltip title={lastUndo ? `Undo ${lastUndo.description.toLowerCase()}` : 'Nothing to undo'}>
+        <span>
+          <IconButton size="small" onClick={handleUndo} disabled={!lastUndo} aria-label="Undo">
+            <UndoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title={lastRedo ? `Redo ${lastRedo.description.toLowerCase()}` : 'Nothing to redo'}>
+        <span>
+          <IconButton size="small" onClick={handleRedo} disabled={!lastRedo} aria-label="Redo">
+            <RedoIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+
+      <Snackbar
+        key={undoHistory.notice?.at} // Restart the timeout for each new notice
+        open={undoHistory.notice !== null}
+        autoHideDuration={NOTICE_DURATION_MS}
+        onClose={(_event, reason) => {
+          // Keep the notice up when tapping elsewhere - it may be exactly what needs undoing
+          if (reason !== 'clickaway') dismissUndoNotice()
+        }}
+        message={undoHistory.notice?.description}
+        action={
+          <Button color="secondary" size="small" onClick={handleUndo}>
+            Undo
+          </Button>
+        }
+      />
+    </>
+  )
+}
+
+// Connect the UndoControls component to Redux Zero
+export const UndoControls = connect(
+  ({ undo }: AppState) => ({ undoHistory: undo }),
+  actions
+)(UndoControlsComponent)
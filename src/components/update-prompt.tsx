@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'preact/hooks'
+import { Button, Snackbar } from '@mui/material'
+
+// How often a long-running display checks for a new build
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000
+
+// Registers the service worker and offers to reload when a new build has been downloaded
+export function UpdatePrompt() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+  // Only reload for an update someone asked for - not when the very first worker takes over
+  const isReloadRequestedRef = useRef(false)
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+
+    let intervalId: number | null = null
+
+    const handleControllerChange = () => {
+      if (isReloadRequestedRef.current) {
+        window.location.reload()
+      }
+    }
+    navigator.serviceWorker.addEventListener('controllerchange', handleControllerChange)
+
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+      .then((registration) => {
+        console.log('📦 Service worker registered:', registration.scope)
+
+        // A new build finished downloading in an earlier visit
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(registration.waiting)
+        }
+
+        registration.addEventListener('updatefound', () => {
+          const worker = registration.installing
+          worker?.addEventListener('statechange', () => {
+            // Without a controller this is the first install, which needs no prompt
+            if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+              console.log('📦 New version downloaded')
+              setWaitingWorker(worker)
+            }
+          })
+        })
+
+        intervalId = window.setInterval(() => {
+          registration.update().catch(() => {
+            // Offline - try again next time
+          })
+        }, UPDATE_CHECK_INTERVAL_MS)
+      })
+      .catch((error) => console.error('Service worker registration failed:', error))
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('controllerchange', handleControllerChange)
+      if (intervalId) {
+        clearInterval(intervalId)
+      }
+    }
+  }, [])
+
+  const handleReload = () => {
+    isReloadRequestedRef.current = true
+    waitingWorker?.postMessage({ type: 'skip-waiting' })
+    setWaitingWorker(null)
+  }
+
+  // Shown at the top so it doesn't cover the Undo snackbar
+  return (
+    <Snackbar
+      open={waitingWorker !== null}
+      message="A new version of Kid Timer is available"
+      anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+      action={
+        <>
+          <Button color="primary" size="small" onClick={handleReload}>
+            Reload
+          </Button>
+          <Button color="inherit" size="small" onClick={() => setWaitingWorker(null)}>
+            Later
+          </Button>
+        </>
+      }
+    />
+  )
+}
@@ -1,8 +1,28 @@
+import { loadDeviceKeyPair } from '../security/device-keys'
+
+// Stable id for this browser, published with every timer change to break ties between devices
+const getDeviceId = () => {
+  let deviceId = localStorage.getItem('device-id')
+  if (!deviceId) {
+    deviceId = `device-${Math.random().toString(36).substr(2, 9)}`
+    localStorage.setItem('device-id', deviceId)
+  }
+  return deviceId
+}
+
+export const DEVICE_ID = getDeviceId()
+
+// This browser's own signing key pair, so the room can tell its messages from ones stamped with its id elsewhere
+export const DEVICE_KEY_PAIR = loadDeviceKeyPair()
+export const DEVICE_KEY = DEVICE_KEY_PAIR.publicKey
+
 // PubNub configuration from environment variables
 export const PUBNUB_CONFIG = {
   publishKey: import.meta.env.VITE_PUBNUB_PUBLISH_KEY || 'demo',
   subscribeKey: import.meta.env.VITE_PUBNUB_SUBSCRIBE_KEY || 'demo',
-  userId: import.meta.env.VITE_PUBNUB_USER_ID || `user-${Math.random().toString(36).substr(2, 9)}`,
+  userId: import.meta.env.VITE_PUBNUB_USER_ID || DEVICE_ID, // Same id on every visit, so presence lists each device once
+  restore: true, // Catch up on missed messages after the connection drops
+  presenceTimeout: 60, // Seconds before a device that dropped off (e.g. the kid's display) leaves presence
 }
 
 // Log the configuration being used (without exposing actual keys)
@@ -10,6 +30,7 @@ console.log('🔧 PubNub Config:', {
   publishKey: PUBNUB_CONFIG.publishKey === 'demo' ? 'demo' : 'custom',
   subscribeKey: PUBNUB_CONFIG.subscribeKey === 'demo' ? 'demo' : 'custom',
   userId: PUBNUB_CONFIG.userId,
+  deviceId: DEVICE_ID,
 })
 
 // Validation function to check if required environment variables are set
@@ -34,5 +55,30 @@ export const validatePubNubConfig = () => {
   }
 }
 
-// Channel configuration
+// Channel configuration - the prefix for every room's channel (see src/store/rooms.ts)
 export const TIMER_CHANNEL = import.meta.env.VITE_PUBNUB_CHANNEL || 'kid-timer-sync'
+
+// Shared time reference that lines up device clocks: 'transport' (the sync backend's time service,
+// e.g. PubNub's time endpoint) or 'local' (this device's own clock shifted by VITE_LOCAL_CLOCK_SKEW_MS -
+// for trying out skew on one machine)
+export const CLOCK_CONFIG = {
+  source: import.meta.env.VITE_TIME_SOURCE === 'local' ? 'local' : 'transport',
+  localSkewMs: Number(import.meta.env.VITE_LOCAL_CLOCK_SKEW_MS) || 0,
+  resyncIntervalMs: 10 * 60 * 1000, // Clocks drift, so the offset is measured again now and then
+}
+
+// How timer states travel between devices (see src/sync/):
+// 'pubnub' - PubNub keyset above (default)
+// 'relay' - self-hosted relay (server/relay.js) at VITE_RELAY_URL - picked automatically when that's set
+// 'broadcast' - tabs and windows on this device only, no setup needed
+// 'memory' - this tab only (for tests, or to run without any sync)
+export type SyncTransportName = 'pubnub' | 'relay' | 'broadcast' | 'memory'
+
+const SYNC_TRANSPORTS: SyncTransportName[] = ['pubnub', 'relay', 'broadcast', 'memory']
+
+export const SYNC_CONFIG = {
+  transport: SYNC_TRANSPORTS.find((name) => name === import.meta.env.VITE_SYNC_TRANSPORT) ??
+    (import.meta.env.VITE_RELAY_URL ? 'relay' : 'pubnub'),
+  // Defaults to the relay's port on whichever machine serves the app (e.g. `yarn dev --host` on the home network)
+  relayUrl: import.meta.env.VITE_RELAY_URL || `ws://${window.location.hostname}:8787`,
+}
@@ -0,0 +1,74 @@
+import { createContext } from 'preact'
+import { useContext, useState, useEffect } from 'preact/hooks'
+import type { SoundChoice } from '../audio/sounds'
+import { getDefaultSpeechLanguage, SPEECH_PHRASES } from '../audio/speech'
+import type { SpeechPhrases } from '../audio/speech'
+
+// Preferences that belong to this device only (never synced - each device in the room decides for itself)
+export interface DeviceSettings {
+  sound: SoundChoice // Which synthesized sound alarms and warnings use
+  volume: number // 0 to 1
+  speechEnabled: boolean // Speak announcements (opt-in, so the whole house doesn't talk at once)
+  speechLanguage: string // Voice language, e.g. "en"
+  speechPhrases: SpeechPhrases // Templates for what gets said
+  announceAtSeconds: number[] // Speak when this much time is left
+  notificationsEnabled: boolean // Show system notifications while the app is in the background
+}
+
+const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  sound: 'chime',
+  volume: 0.8,
+  speechEnabled: false,
+  speechLanguage: getDefaultSpeechLanguage(),
+  speechPhrases: SPEECH_PHRASES[getDefaultSpeechLanguage()],
+  announceAtSeconds: [10 * 60, 5 * 60, 60],
+  notificationsEnabled: false,
+}
+
+const STORAGE_KEY = 'device-settings'
+
+interface DeviceSettingsContextType {
+  settings: DeviceSettings
+  updateSettings: (changes: Partial<DeviceSettings>) => void
+}
+
+const DeviceSettingsContext = createContext<DeviceSettingsContextType | null>(null)
+
+interface DeviceSettingsProviderProps {
+  children: any
+}
+
+export function DeviceSettingsProvider({ children }: DeviceSettingsProviderProps) {
+  // Get saved settings from localStorage, filling in anything added since they were saved
+  const [settings, setSettings] = useState<DeviceSettings>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+      return { ...DEFAULT_DEVICE_SETTINGS, ...saved }
+    } catch {
+      return DEFAULT_DEVICE_SETTINGS
+    }
+  })
+
+  // Save settings to localStorage
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  }, [settings])
+
+  const updateSettings = (changes: Partial<DeviceSettings>) => {
+    setSettings(prevSettings => ({ ...prevSettings, ...changes }))
+  }
+
+  return (
+    <DeviceSettingsContext.Provider value={{ settings, updateSettings }}>
+      {children}
+    </DeviceSettingsContext.Provider>
+  )
+}
+
+export function useDeviceSettings() {
+  const context = useContext(DeviceSettingsContext)
+  if (!context) {
+    throw new Error('useDeviceSettings must be used within a DeviceSettingsProvider')
+  }
+  return context
+}
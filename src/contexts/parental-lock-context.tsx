@@ -0,0 +1,197 @@
+import { createContext } from 'preact'
+import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'preact/hooks'
+import { PinDialog } from '../components/pin-dialog'
+import { hashPin, verifyPin } from '../security/pin'
+import type { PinHash } from '../security/pin'
+
+// Parental lock for this device (never synced): once a PIN is set, controls that change a running
+// timer need the PIN first. Starting a timer and silencing the alarm always work
+interface ParentalLockState {
+  pin: PinHash | null // No PIN means no lock
+  unlockedUntil: number | null // Relocks by itself at this time (device clock)
+  relockAfterMinutes: number // How long an unlock lasts after the last locked control was used
+  failedAttempts: number // Wrong PINs in a row
+  retryAfter: number | null // No more guesses before this time
+}
+
+const DEFAULT_LOCK_STATE: ParentalLockState = {
+  pin: null,
+  unlockedUntil: null,
+  relockAfterMinutes: 5,
+  failedAttempts: 0,
+  retryAfter: null,
+}
+
+const STORAGE_KEY = 'parental-lock'
+
+// Wrong PINs allowed before guessing is paused, and for how long
+const MAX_FAILED_ATTEMPTS = 5
+const RETRY_DELAY_MS = 30 * 1000
+
+interface ParentalLockContextType {
+  hasPin: boolean
+  isLocked: boolean // A PIN is set and the device isn't unlocked right now
+  unlockedUntil: number | null
+  relockAfterMinutes: number
+  requireUnlock: (action: () => void) => void // Runs the action now, or once the PIN has been entered
+  setPin: (pin: string) => Promise<void>
+  removePin: () => void
+  lockNow: () => void
+  setRelockAfterMinutes: (minutes: number) => void
+}
+
+const ParentalLockContext = createContext<ParentalLockContextType | null>(null)
+
+interface ParentalLockProviderProps {
+  children: any
+}
+
+export function ParentalLockProvider({ children }: ParentalLockProviderProps) {
+  // Get the saved lock from localStorage, so a reload doesn't unlock the device
+  const [lock, setLock] = useState<ParentalLockState>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+      return { ...DEFAULT_LOCK_STATE, ...saved }
+    } catch {
+      return DEFAULT_LOCK_STATE
+    }
+  })
+  const [now, setNow] = useState(Date.now())
+  const [isDialogOpen, setDialogOpen] = useState(false)
+  // Control waiting for the PIN
+  const pendingActionRef = useRef<(() => void) | null>(null)
+  // The lock as of the last render, so the functions below can stay the same between renders
+  // (components add them to effect dependencies, e.g. the keyboard shortcuts)
+  const lockRef = useRef(lock)
+  lockRef.current = lock
+
+  // Save the lock to localStorage
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(lock))
+  }, [lock])
+
+  // Re-render when the unlock (or the pause after wrong PINs) runs out
+  useEffect(() => {
+    const nextChange = [lock.unlockedUntil, lock.retryAfter]
+      .filter((time): time is number => time !== null && time > now)
+    if (nextChange.length === 0) return
+
+    const timeoutId = window.setTimeout(() => setNow(Date.now()), Math.min(...nextChange) - now)
+    return () => clearTimeout(timeoutId)
+  }, [lock.unlockedUntil, lock.retryAfter, now])
+
+  const isLocked = lock.pin !== null && !(lock.unlockedUntil !== null && lock.unlockedUntil > now)
+  const getRelockTime = (relockAfterMinutes = lockRef.current.relockAfterMinutes) => Date.now() + relockAfterMinutes * 60 * 1000
+
+  const requireUnlock = useCallback((action: () => void) => {
+    const { pin, unlockedUntil } = lockRef.current
+    if (pin === null) {
+      action()
+      return
+    }
+
+    if (unlockedUntil !== null && unlockedUntil > Date.now()) {
+      // Using the controls keeps the device unlocked a little longer
+      setLock((prevLock) => ({ ...prevLock, unlockedUntil: getRelockTime() }))
+      action()
+      return
+    }
+
+    console.log('🔐 Parental lock: asking for the PIN')
+    pendingActionRef.current = action
+    setDialogOpen(true)
+  }, [])
+
+  // Check an entered PIN, running the waiting control if it's right
+  const handleSubmit = useCallback(async (pin: string) => {
+    const { pin: stored, retryAfter } = lockRef.current
+    if (!stored || (retryAfter !== null && retryAfter > Date.now())) return false
+
+    const isCorrect = await verifyPin(pin, stored)
+    if (!isCorrect) {
+      console.log('🔐 Parental lock: wrong PIN')
+      setLock((prevLock) => {
+        const failedAttempts = prevLock.failedAttempts + 1
+        return failedAttempts >= MAX_FAILED_ATTEMPTS
+          ? { ...prevLock, failedAttempts: 0, retryAfter: Date.now() + RETRY_DELAY_MS }
+          : { ...prevLock, failedAttempts }
+      })
+      setNow(Date.now())
+      return false
+    }
+
+    console.log('🔓 Parental lock: unlocked')
+    setLock((prevLock) => ({ ...prevLock, unlockedUntil: getRelockTime(), failedAttempts: 0, retryAfter: null }))
+    setNow(Date.now())
+    setDialogOpen(false)
+    pendingActionRef.current?.()
+    pendingActionRef.current = null
+    return true
+  }, [])
+
+  const handleCancel = useCallback(() => {
+    pendingActionRef.current = null
+    setDialogOpen(false)
+  }, [])
+
+  // Setting or changing the PIN leaves the device unlocked, so the parent can carry on
+  const setPin = useCallback(async (pin: string) => {
+    const hashed = await hashPin(pin)
+    console.log('🔐 Parental lock: PIN set')
+    setLock((prevLock) => ({ ...prevLock, pin: hashed, unlockedUntil: getRelockTime(), failedAttempts: 0, retryAfter: null }))
+    setNow(Date.now())
+  }, [])
+
+  const removePin = useCallback(() => {
+    console.log('🔓 Parental lock: PIN removed')
+    setLock((prevLock) => ({ ...prevLock, pin: null, unlockedUntil: null, failedAttempts: 0, retryAfter: null }))
+  }, [])
+
+  const lockNow = useCallback(() => {
+    console.log('🔒 Parental lock: locked')
+    setLock((prevLock) => ({ ...prevLock, unlockedUntil: null }))
+    setNow(Date.now())
+  }, [])
+
+  const setRelockAfterMinutes = useCallback((relockAfterMinutes: number) => {
+    setLock((prevLock) => ({
+      ...prevLock,
+      relockAfterMinutes,
+      unlockedUntil: prevLock.unlockedUntil !== null ? getRelockTime(relockAfterMinutes) : null
+    }))
+  }, [])
+
+  const hasPin = lock.pin !== null
+  const unlockedUntil = isLocked ? null : lock.unlockedUntil
+  const value = useMemo(() => ({
+    hasPin,
+    isLocked,
+    unlockedUntil,
+    relockAfterMinutes: lock.relockAfterMinutes,
+    requireUnlock,
+    setPin,
+    removePin,
+    lockNow,
+    setRelockAfterMinutes
+  }), [hasPin, isLocked, unlockedUntil, lock.relockAfterMinutes])
+
+  return (
+    <ParentalLockContext.Provider value={value}>
+      {children}
+      <PinDialog
+        open={isDialogOpen}
+        retryAfter={lock.retryAfter !== null && lock.retryAfter > now ? lock.retryAfter : null}
+        onSubmit={handleSubmit}
+        onCancel={handleCancel}
+      />
+    </ParentalLockContext.Provider>
+  )
+}
+
+export function useParentalLock() {
+  const context = useContext(ParentalLockContext)
+  if (!context) {
+    throw new Error('useParentalLock must be used within a ParentalLockProvider')
+  }
+  return context
+}
@@ -4,14 +4,15 @@ interface FaviconOptions {
   progress: number // 0-100
   isRunning: boolean
   isComplete: boolean
+  isOvertime?: boolean // Finished and still counting past zero
 }
 
-export function useDynamicFavicon({ progress, isRunning, isComplete }: FaviconOptions) {
+export function useDynamicFavicon({ progress, isRunning, isComplete, isOvertime = false }: FaviconOptions) {
   useEffect(() => {
     // Generate SVG based on current timer state
-    const generateFaviconSVG = (progress: number, isRunning: boolean, isComplete: boolean) => {
+    const generateFaviconSVG = (progress: number, isRunning: boolean, isComplete: boolean, isOvertime: boolean) => {
       // Determine colors based on state
-      const progressColor = isComplete ? '#3b82f6' : (isRunning ? '#ef4444' : '#6b7280')
+      const progressColor = isOvertime ? '#f59e0b' : isComplete ? '#3b82f6' : (isRunning ? '#ef4444' : '#6b7280')
       const backgroundOpacity = isRunning ? '0.2' : '0.3'
       
       // Calculate stroke-dasharray for progress circle
@@ -25,7 +26,7 @@ export function useDynamicFavicon({ progress, isRunning, isComplete }: FaviconOp
           <defs>
             <linearGradient id="progressGradient" x1="0%" y1="0%" x2="100%" y2="100%">
               <stop offset="0%" style="stop-color:${progressColor};stop-opacity:1" />
-              <stop offset="100%" style="stop-color:${progressColor === '#3b82f6' ? '#1d4ed8' : progressColor === '#ef4444' ? '#dc2626' : '#4b5563'};stop-opacity:1" />
+              <stop offset="100%" style="stop-color:${progressColor === '#f59e0b' ? '#d97706' : progressColor === '#3b82f6' ? '#1d4ed8' : progressColor === '#ef4444' ? '#dc2626' : '#4b5563'};stop-opacity:1" />
             </linearGradient>
             <linearGradient id="backgroundGradient" x1="0%" y1="0%" x2="100%" y2="100%">
               <stop offset="0%" style="stop-color:#e5e7eb;stop-opacity:${backgroundOpacity}" />
@@ -88,7 +89,7 @@ export function useDynamicFavicon({ progress, isRunning, isComplete }: FaviconOp
 
     // Update favicon
     const updateFavicon = () => {
-      const svg = generateFaviconSVG(progress, isRunning, isComplete)
+      const svg = generateFaviconSVG(progress, isRunning, isComplete, isOvertime)
       const base64 = btoa(svg)
       const dataUri = `data:image/svg+xml;base64,${base64}`
       
@@ -103,5 +104,5 @@ export function useDynamicFavicon({ progress, isRunning, isComplete }: FaviconOp
     }
 
     updateFavicon()
-  }, [progress, isRunning, isComplete])
+  }, [progress, isRunning, isComplete, isOvertime])
 }
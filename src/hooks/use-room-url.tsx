@@ -0,0 +1,49 @@
+import { useEffect } from 'preact/hooks'
+import { getRoomHash, getRoomLinkFromHash, hasOtherRoomSecret, openRoomLink, rememberRoom } from '../store/rooms'
+import type { RoomLink } from '../store/rooms'
+
+// Keep the URL and the current room in step: switching rooms updates the address bar (so the
+// back button returns to the previous room), and following a room link in an open tab switches rooms.
+// The address bar link carries the room's encryption key while this device has one, and always the
+// secret this device uses - a link with a different one goes to onOtherSecret for the user to decide
+export function useRoomUrl(
+  roomId: string,
+  roomKey: string | null,
+  roomSecret: string,
+  joinRoom: (roomId: string) => void,
+  onOtherSecret: (link: RoomLink) => void
+) {
+  useEffect(() => {
+    rememberRoom(roomId)
+
+    const hashLink = getRoomLinkFromHash(window.location.hash)
+    if (hashLink?.roomId === roomId && hasOtherRoomSecret(hashLink)) {
+      console.log('🔑 The link has a different secret for this room - keeping the one saved here')
+      onOtherSecret(hashLink)
+    }
+
+    if (hashLink === null || (hashLink.roomId === roomId && (hashLink.secret !== roomSecret || hashLink.key !== roomKey))) {
+      // Opened without a room (or with an old link without its secret, or another secret), or encryption was turned on or off - show the full link
+      window.history.replaceState(null, '', getRoomHash(roomId))
+    } else if (hashLink.roomId !== roomId) {
+      window.history.pushState(null, '', getRoomHash(roomId))
+    }
+  }, [roomId, roomKey, roomSecret])
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const hashLink = getRoomLinkFromHash(window.location.hash)
+      if (hashLink) {
+        console.log('🔗 Room changed in the URL:', hashLink.roomId)
+        joinRoom(openRoomLink(hashLink))
+        if (hasOtherRoomSecret(hashLink)) {
+          onOtherSecret(hashLink)
+          window.history.replaceState(null, '', getRoomHash(hashLink.roomId))
+        }
+      }
+    }
+
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [joinRoom, onOtherSecret])
+}
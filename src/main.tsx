@@ -2,6 +2,8 @@ import { render } from 'preact'
 import CssBaseline from '@mui/material/CssBaseline'
 import { Provider } from 'redux-zero/preact'
 import { AppThemeProvider } from './contexts/theme-context'
+import { DeviceSettingsProvider } from './contexts/device-settings-context'
+import { ParentalLockProvider } from './contexts/parental-lock-context'
 import { App } from './components/app'
 import store from './store'
 import { PubNubIntegrationProvider } from './store/pubnub-integration'
@@ -10,8 +12,12 @@ render(
   <Provider store={store}>
     <PubNubIntegrationProvider>
       <AppThemeProvider>
-        <CssBaseline />
-        <App />
+        <DeviceSettingsProvider>
+          <ParentalLockProvider>
+            <CssBaseline />
+            <App />
+          </ParentalLockProvider>
+        </DeviceSettingsProvider>
       </AppThemeProvider>
     </PubNubIntegrationProvider>
   </Provider>, 
@@ -0,0 +1,333 @@
+// QR code encoder (ISO/IEC 18004) for room links, so sharing a room needs no external service
+// or package. Byte mode only, error correction level M (about 15% of the code can be damaged
+// or covered and it still scans), smallest version that fits, best of the eight masks
+
+// Per version 1-40 at level M (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+]
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+]
+
+// Level M in the format information
+const FORMAT_LEVEL_BITS = 0
+
+const BYTE_MODE_INDICATOR = 0x4
+
+// Penalty weights for choosing a mask
+const PENALTY_RUN = 3
+const PENALTY_BLOCK = 3
+const PENALTY_FINDER_LIKE = 40
+const PENALTY_BALANCE = 10
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0
+
+// Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const multiply = (x: number, y: number) => {
+  let product = 0
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d)
+    product ^= ((y >>> i) & 1) * x
+  }
+  return product
+}
+
+// Reed-Solomon generator polynomial of the given degree (leading 1 left out)
+const reedSolomonDivisor = (degree: number) => {
+  const divisor: number[] = new Array(degree - 1).fill(0).concat([1])
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < divisor.length; j++) {
+      divisor[j] = multiply(divisor[j], root)
+      if (j + 1 < divisor.length) divisor[j] ^= divisor[j + 1]
+    }
+    root = multiply(root, 0x02)
+  }
+  return divisor
+}
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const remainder: number[] = divisor.map(() => 0)
+  data.forEach((byte) => {
+    const factor = byte ^ (remainder.shift() as number)
+    remainder.push(0)
+    divisor.forEach((coefficient, i) => {
+      remainder[i] ^= multiply(coefficient, factor)
+    })
+  })
+  return remainder
+}
+
+// Modules available for data and error correction once the function patterns are placed
+const getNumRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+const getNumDataCodewords = (version: number) =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+
+const getAlignmentPatternPositions = (version: number) => {
+  if (version === 1) return []
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+  const positions = [6]
+  for (let position = size - 7; positions.length < numAlign; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+const isMasked = (mask: number, x: number, y: number) => {
+  switch (mask) {
+    case 0: return (x + y) % 2 === 0
+    case 1: return y % 2 === 0
+    case 2: return x % 3 === 0
+    case 3: return (x + y) % 3 === 0
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5: return (x * y) % 2 + (x * y) % 3 === 0
+    case 6: return ((x * y) % 2 + (x * y) % 3) % 2 === 0
+    default: return ((x + y) % 2 + (x * y) % 3) % 2 === 0
+  }
+}
+
+// Split the data into blocks, add error correction to each, and interleave them
+const addErrorCorrection = (data: number[], version: number) => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - rawCodewords % numBlocks
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+  const divisor = reedSolomonDivisor(blockEccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const blockData = data.slice(offset, offset + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1))
+    offset += blockData.length
+    const ecc = reedSolomonRemainder(blockData, divisor)
+    // Short blocks get a placeholder so every block lines up for interleaving
+    if (i < numShortBlocks) blockData.push(0)
+    blocks.push(blockData.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+// Penalty score from the spec: long runs, 2x2 blocks, finder-like patterns and dark/light balance
+const getPenaltyScore = (modules: boolean[][]) => {
+  const size = modules.length
+  let penalty = 0
+  let dark = 0
+
+  const scoreLine = (line: boolean[]) => {
+    let runLength = 1
+    for (let i = 1; i <= line.length; i++) {
+      if (i < line.length && line[i] === line[i - 1]) {
+        runLength++
+      } else {
+        if (runLength >= 5) penalty += PENALTY_RUN + runLength - 5
+        runLength = 1
+      }
+    }
+
+    // Dark-light-dark-dark-dark-light-dark with four light modules on either side
+    const text = line.map((isDark) => isDark ? '1' : '0').join('')
+    for (let i = text.indexOf('1011101'); i !== -1; i = text.indexOf('1011101', i + 1)) {
+      const before = text.slice(Math.max(0, i - 4), i)
+      const after = text.slice(i + 7, i + 11)
+      if ((i < 4 || before === '0000') || (i + 11 > text.length || after === '0000')) {
+        penalty += PENALTY_FINDER_LIKE
+      }
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    scoreLine(modules[y])
+    scoreLine(modules.map((row) => row[y]))
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++
+      if (x + 1 < size && y + 1 < size) {
+        const color = modules[y][x]
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          penalty += PENALTY_BLOCK
+        }
+      }
+    }
+  }
+
+  // Every 5% away from half dark costs more
+  const total = size * size
+  penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * PENALTY_BALANCE
+  return penalty
+}
+
+// Encode text as a QR code: rows of modules, true for dark. Throws if the text is too long
+export const encodeQrCode = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text))
+
+  // Smallest version with room for the mode, character count and data
+  let version = 1
+  const getDataBits = () => 4 + (version <= 9 ? 8 : 16) + bytes.length * 8
+  while (getDataBits() > getNumDataCodewords(version) * 8) {
+    if (++version > 40) throw new Error('Text is too long for a QR code')
+  }
+
+  // Bit stream: mode, length, data, terminator, then padding to fill the capacity
+  const capacityBits = getNumDataCodewords(version) * 8
+  const bits: number[] = []
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+  appendBits(BYTE_MODE_INDICATOR, 4)
+  appendBits(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach((byte) => appendBits(byte, 8))
+  appendBits(0, Math.min(4, capacityBits - bits.length))
+  appendBits(0, (8 - bits.length % 8) % 8)
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8)
+  }
+
+  const data: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  const codewords = addErrorCorrection(data, version)
+
+  const size = version * 4 + 17
+  const modules: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false))
+  const isFunction: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false))
+  const setFunctionModule = (x: number, y: number, isDark: boolean) => {
+    modules[y][x] = isDark
+    isFunction[y][x] = true
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(6, i, i % 2 === 0)
+    setFunctionModule(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns (with their light separators) in three corners
+  const drawFinderPattern = (centerX: number, centerY: number) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        const x = centerX + dx
+        const y = centerY + dy
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunctionModule(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+  drawFinderPattern(3, 3)
+  drawFinderPattern(size - 4, 3)
+  drawFinderPattern(3, size - 4)
+
+  // Alignment patterns, except where they would overlap the finder patterns
+  const alignmentPositions = getAlignmentPatternPositions(version)
+  const lastAlignment = alignmentPositions.length - 1
+  alignmentPositions.forEach((centerY, i) => {
+    alignmentPositions.forEach((centerX, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === lastAlignment) || (i === lastAlignment && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  // Format information (error correction level and mask, BCH protected) next to the finder patterns
+  const drawFormatBits = (mask: number) => {
+    const formatData = (FORMAT_LEVEL_BITS << 3) | mask
+    let remainder = formatData
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const formatBits = ((formatData << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) setFunctionModule(8, i, getBit(formatBits, i))
+    setFunctionModule(8, 7, getBit(formatBits, 6))
+    setFunctionModule(8, 8, getBit(formatBits, 7))
+    setFunctionModule(7, 8, getBit(formatBits, 8))
+    for (let i = 9; i < 15; i++) setFunctionModule(14 - i, 8, getBit(formatBits, i))
+
+    for (let i = 0; i < 8; i++) setFunctionModule(size - 1 - i, 8, getBit(formatBits, i))
+    for (let i = 8; i < 15; i++) setFunctionModule(8, size - 15 + i, getBit(formatBits, i))
+    setFunctionModule(8, size - 8, true) // Always dark
+  }
+  drawFormatBits(0) // Reserve the area for now
+
+  // Version information (version 7 and up) in two 6x3 blocks
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const versionBits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + i % 3
+      const b = Math.floor(i / 3)
+      setFunctionModule(a, b, getBit(versionBits, i))
+      setFunctionModule(b, a, getBit(versionBits, i))
+    }
+  }
+
+  // Codewords zigzag up and down two-module columns from the bottom right, skipping the timing column
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const isUpward = ((right + 1) & 2) === 0
+        const y = isUpward ? size - 1 - vertical : vertical
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7))
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  // XOR-ing a mask twice undoes it, which lets every mask be tried in place
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && isMasked(mask, x, y)) modules[y][x] = !modules[y][x]
+      }
+    }
+  }
+
+  let bestMask = 0
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(mask)
+    drawFormatBits(mask)
+    const penalty = getPenaltyScore(modules)
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    applyMask(mask)
+  }
+  applyMask(bestMask)
+  drawFormatBits(bestMask)
+
+  return modules
+}
@@ -0,0 +1,61 @@
+import { p256 } from '@noble/curves/nist.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createDeviceKeyPair, signDeviceState, verifyDeviceState } from './device-keys'
+import { fromBase64Url, toBase64Url } from './encoding'
+
+const STATE = { id: 'default', label: 'Bedtime', durationMs: 300000, isRunning: true, counter: 4, deviceId: 'device-a' }
+
+// What a plain-HTTP page has: no crypto.subtle, only getRandomValues
+const withoutWebCrypto = () => {
+  vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) })
+}
+
+describe('device-keys', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('accepts states signed with or without WebCrypto on either kind of device', async () => {
+    const keyPair = createDeviceKeyPair()
+    const fromHttps = await signDeviceState(STATE, keyPair)
+    withoutWebCrypto()
+    const fromHttp = await signDeviceState(STATE, keyPair)
+
+    expect(await verifyDeviceState(fromHttps)).toEqual({ check: 'valid', state: { ...STATE, deviceKey: keyPair.publicKey } })
+    vi.unstubAllGlobals()
+    expect(await verifyDeviceState(fromHttp)).toEqual({ check: 'valid', state: { ...STATE, deviceKey: keyPair.publicKey } })
+  })
+
+  it('rejects changed states and states claiming another device key', async () => {
+    const signed = await signDeviceState(STATE, createDeviceKeyPair())
+
+    expect((await verifyDeviceState({ ...signed, isRunning: false })).check).toBe('forged')
+    expect((await verifyDeviceState({ ...signed, deviceKey: createDeviceKeyPair().publicKey })).check).toBe('forged')
+    expect((await verifyDeviceState({ ...signed, deviceKey: 'not a key' })).check).toBe('forged')
+    expect((await verifyDeviceState({ ...signed, deviceSignature: undefined })).check).toBe('forged')
+
+    withoutWebCrypto()
+    expect((await verifyDeviceState({ ...signed, isRunning: false })).check).toBe('forged')
+  })
+
+  it('only makes and accepts low-s signatures', async () => {
+    const keyPair = createDeviceKeyPair()
+    for (let i = 0; i < 20; i++) {
+      const signed = await signDeviceState({ ...STATE, counter: i }, keyPair)
+      const signature = p256.Signature.fromBytes(fromBase64Url(signed.deviceSignature))
+      expect(signature.hasHighS()).toBe(false)
+
+      // The same signature's high-s twin is just as valid mathematically, but not accepted
+      const twin = new p256.Signature(signature.r, p256.Point.Fn.ORDER - signature.s).toBytes()
+      const withTwin = { ...signed, deviceSignature: toBase64Url(twin) }
+      expect((await verifyDeviceState(withTwin)).check).toBe('forged')
+      withoutWebCrypto()
+      expect((await verifyDeviceState(withTwin)).check).toBe('forged')
+      vi.unstubAllGlobals()
+    }
+  })
+
+  it('leaves states from clients without device keys unsigned', async () => {
+    expect(await verifyDeviceState(STATE)).toEqual({ check: 'unsigned', state: STATE })
+  })
+})
@@ -0,0 +1,106 @@
+import { p256 } from '@noble/curves/nist.js'
+import { fromBase64Url, toBase64Url, toCanonicalJson } from './encoding'
+import { hasWebCrypto } from './signing'
+import type { SignatureCheck } from './signing'
+
+// Device keys. Every device in a room knows the room secret, a display included, so the room signature
+// (see signing.ts) can't tell a controller from a display that stamps a controller's device id on its
+// messages. Each device also has its own ECDSA P-256 key pair and signs what it publishes with it;
+// controllers record the devices' public keys in the room's roles (see store/roles.ts), and receivers
+// only take changes from a sender whose signature checks out against the key recorded for it.
+// Signatures are made and checked with WebCrypto's ECDSA, or with @noble/curves on pages without WebCrypto.
+// Either way they're normalised to low-s and high-s ones are refused, so each state has exactly one signature
+
+export interface DeviceKeyPair {
+  publicKey: string // base64url, uncompressed point - sent with every message and in presence
+  privateKey: string // base64url, never leaves this device
+}
+
+const DEVICE_KEY_PAIR_KEY = 'device-key-pair'
+
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' }
+
+// Made with @noble/curves rather than WebCrypto's async generateKey, so the public key is known as soon as the app loads
+export const createDeviceKeyPair = (): DeviceKeyPair => {
+  const privateKey = p256.utils.randomSecretKey()
+  return { publicKey: toBase64Url(p256.getPublicKey(privateKey, false)), privateKey: toBase64Url(privateKey) }
+}
+
+// This device's key pair, created on its first visit and kept from then on
+export const loadDeviceKeyPair = (): DeviceKeyPair => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DEVICE_KEY_PAIR_KEY) ?? 'null')
+    if (typeof saved?.publicKey === 'string' && typeof saved?.privateKey === 'string') return saved
+  } catch {
+    // Unreadable - start over with a new key pair
+  }
+
+  const keyPair = createDeviceKeyPair()
+  localStorage.setItem(DEVICE_KEY_PAIR_KEY, JSON.stringify(keyPair))
+  return keyPair
+}
+
+// The WebCrypto signing key for the last key pair used, imported once
+let importedKey: { privateKey: string, key: Promise<CryptoKey> } | null = null
+
+const importPrivateKey = (keyPair: DeviceKeyPair) => {
+  if (importedKey?.privateKey !== keyPair.privateKey) {
+    const publicKey = fromBase64Url(keyPair.publicKey)
+    const jwk = {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keyPair.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33))
+    }
+    importedKey = { privateKey: keyPair.privateKey, key: crypto.subtle.importKey('jwk', jwk, ECDSA_PARAMS, false, ['sign']) }
+  }
+  return importedKey.key
+}
+
+// Helper function to turn a high-s signature into its low-s twin (WebCrypto signs with either)
+const toLowS = (signature: Uint8Array) => {
+  const parsed = p256.Signature.fromBytes(signature)
+  return parsed.hasHighS() ? new p256.Signature(parsed.r, p256.Point.Fn.ORDER - parsed.s).toBytes() : signature
+}
+
+const sign = async (keyPair: DeviceKeyPair, data: Uint8Array) => {
+  if (!hasWebCrypto()) return p256.sign(data, fromBase64Url(keyPair.privateKey))
+
+  const key = await importPrivateKey(keyPair)
+  return toLowS(new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, data)))
+}
+
+const verify = async (publicKey: Uint8Array, data: Uint8Array, signature: Uint8Array) => {
+  if (!hasWebCrypto()) return p256.verify(signature, data, publicKey)
+  if (p256.Signature.fromBytes(signature).hasHighS()) return false
+
+  const key = await crypto.subtle.importKey('raw', publicKey, ECDSA_PARAMS, false, ['verify'])
+  return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, signature, data)
+}
+
+// The state with this device's public key and signature added
+export const signDeviceState = async <T extends Record<string, any>>(state: T, keyPair: DeviceKeyPair) => {
+  const stamped = { ...state, deviceKey: keyPair.publicKey }
+  const deviceSignature = await sign(keyPair, new TextEncoder().encode(toCanonicalJson(stamped)))
+  return { ...stamped, deviceSignature: toBase64Url(deviceSignature) }
+}
+
+// Check that a received state was signed with the device key it carries, and hand it back without the
+// signature. States from clients without device keys come back unsigned - they can't act for any device
+export const verifyDeviceState = async (message: Record<string, any>): Promise<{ check: SignatureCheck, state: Record<string, any> }> => {
+  const { deviceSignature, ...state } = message
+  if (typeof state.deviceKey !== 'string') {
+    const { deviceKey: _deviceKey, ...unsigned } = state
+    return { check: 'unsigned', state: unsigned }
+  }
+  if (typeof deviceSignature !== 'string') return { check: 'forged', state }
+
+  try {
+    const isValid = await verify(fromBase64Url(state.deviceKey), new TextEncoder().encode(toCanonicalJson(state)), fromBase64Url(deviceSignature))
+    return { check: isValid ? 'valid' : 'forged', state }
+  } catch {
+    // Not a public key, or not even valid base64
+    return { check: 'forged', state }
+  }
+}
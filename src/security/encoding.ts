@@ -0,0 +1,25 @@
+// Byte encodings shared by the security helpers
+
+export const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+
+// URL- and channel-safe base64 without padding, e.g. for ids and secrets in links
+export const toBase64Url = (bytes: Uint8Array) =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+export const fromBase64Url = (text: string) =>
+  fromBase64(text.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(text.length / 4) * 4, '='))
+
+// JSON with object keys sorted at every level, so the same state always gives the same bytes
+// whatever order its keys arrived in (signatures are computed over this)
+export const toCanonicalJson = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map((item) => item === undefined ? 'null' : toCanonicalJson(item)).join(',')}]`
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null'
+
+  return `{${Object.keys(value)
+    .filter((key) => value[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${toCanonicalJson(value[key])}`)
+    .join(',')}}`
+}
@@ -0,0 +1,73 @@
+import { fromBase64Url, toBase64Url } from './encoding'
+
+// Optional end-to-end encryption of timer messages. A room key is derived from a passphrase and
+// travels in the room link's fragment like the room secret, so the sync server only ever sees ciphertext.
+// Messages are signed first (see signing.ts) and then encrypted with AES-GCM
+
+// A timer (or roles) state as published in an encrypted room
+export interface EncryptedMessage {
+  id: string // Timer (or roles) id, left readable so history can keep the newest message per timer
+  iv: string // base64url, random per message
+  ciphertext: string // base64url AES-GCM of the signed state's JSON
+}
+
+// Why an encrypted message couldn't be read
+export type DecryptionFailure = 'no-key' | 'undecryptable'
+
+// PBKDF2 rounds for turning a passphrase into a room key - done once per passphrase, not per message
+const ROOM_KEY_ITERATIONS = 200_000
+
+// 256-bit AES key as base64url
+const ROOM_KEY_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+// AES-GCM's recommended 96-bit nonce
+const IV_BYTES = 12
+
+// Needs WebCrypto, which only HTTPS pages (and localhost) have
+export const isEncryptionAvailable = () => typeof crypto !== 'undefined' && crypto.subtle !== undefined
+
+export const isValidRoomKey = (key: string) => ROOM_KEY_PATTERN.test(key)
+
+export const isEncryptedMessage = (message: any): message is EncryptedMessage =>
+  typeof message?.iv === 'string' && typeof message?.ciphertext === 'string'
+
+// Room key for a passphrase, salted with the room id so the same passphrase gives every room its own key.
+// Any device in the room can type the passphrase instead of opening the link and end up with the same key
+export const deriveRoomKey = async (passphrase: string, roomId: string) => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(`kid-timer room key:${roomId}`), iterations: ROOM_KEY_ITERATIONS },
+    baseKey,
+    256
+  )
+  return toBase64Url(new Uint8Array(bits))
+}
+
+export const importRoomKey = (key: string) =>
+  crypto.subtle.importKey('raw', fromBase64Url(key), 'AES-GCM', false, ['encrypt', 'decrypt'])
+
+// The id is authenticated along with the ciphertext, so it can't be swapped onto another timer's message
+export const encryptState = async (state: Record<string, any> & { id: string }, key: CryptoKey): Promise<EncryptedMessage> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(state.id) },
+    key,
+    new TextEncoder().encode(JSON.stringify(state))
+  )
+  return { id: state.id, iv: toBase64Url(iv), ciphertext: toBase64Url(new Uint8Array(ciphertext)) }
+}
+
+// The state inside an encrypted message, or null if it wasn't encrypted with this key (or was tampered with)
+export const decryptState = async (message: EncryptedMessage, key: CryptoKey): Promise<Record<string, any> | null> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64Url(message.iv), additionalData: new TextEncoder().encode(message.id) },
+      key,
+      fromBase64Url(message.ciphertext)
+    )
+    const state = JSON.parse(new TextDecoder().decode(plaintext))
+    return state && typeof state === 'object' && state.id === message.id ? state : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { hashPin, isPinLockAvailable, verifyPin } from './pin'
+
+describe('pin', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('checks PINs against their stored hash', async () => {
+    const stored = await hashPin('4821')
+
+    expect(await verifyPin('4821', stored)).toBe(true)
+    expect(await verifyPin('4822', stored)).toBe(false)
+  })
+
+  it('is unavailable on pages without WebCrypto', () => {
+    expect(isPinLockAvailable()).toBe(true)
+    // What a plain-HTTP page has: no crypto.subtle, only getRandomValues
+    vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) })
+    expect(isPinLockAvailable()).toBe(false)
+  })
+})
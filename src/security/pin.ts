@@ -0,0 +1,32 @@
+import { fromBase64, toBase64 } from './encoding'
+
+// Hashing for the parental lock PIN. Only a salted PBKDF2 hash is ever stored, so reading
+// localStorage doesn't give the PIN away (a 4-digit PIN can still be guessed - the dialog slows that down)
+
+export interface PinHash {
+  salt: string // Base64, random per PIN
+  hash: string // Base64 PBKDF2-SHA-256 of the PIN
+  iterations: number
+}
+
+const PIN_HASH_ITERATIONS = 100_000
+
+const derive = async (pin: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256)
+  return toBase64(new Uint8Array(bits))
+}
+
+// Hashing needs WebCrypto, which only HTTPS pages (and localhost) have
+export const isPinLockAvailable = () => typeof crypto !== 'undefined' && crypto.subtle !== undefined
+
+// PINs are 4 to 8 digits
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin)
+
+export const hashPin = async (pin: string): Promise<PinHash> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  return { salt: toBase64(salt), hash: await derive(pin, salt, PIN_HASH_ITERATIONS), iterations: PIN_HASH_ITERATIONS }
+}
+
+export const verifyPin = async (pin: string, stored: PinHash) =>
+  (await derive(pin, fromBase64(stored.salt), stored.iterations)) === stored.hash
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createRoomSecret, importSigningKey, signState, verifyState } from './signing'
+
+const ROOM_ID = 'q3Vx0sPbR2m1k8LwYcT7ag'
+
+const STATE = { id: 'default', label: 'Bedtime', durationMs: 300000, isRunning: true, counter: 4, deviceId: 'device-a' }
+
+// The signing key a plain-HTTP page gets: no crypto.subtle, only getRandomValues
+const importFallbackKey = async (secret: string) => {
+  vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) })
+  try {
+    return await importSigningKey(secret, ROOM_ID)
+  } finally {
+    vi.unstubAllGlobals()
+  }
+}
+
+describe('signing', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('uses the @noble/hashes HMAC where WebCrypto is missing', async () => {
+    expect(await importFallbackKey(createRoomSecret())).toBeInstanceOf(Uint8Array)
+  })
+
+  it('accepts messages signed with or without WebCrypto on either kind of device', async () => {
+    const secret = createRoomSecret()
+    const webCryptoKey = await importSigningKey(secret, ROOM_ID)
+    const fallbackKey = await importFallbackKey(secret)
+
+    const fromHttps = await signState(STATE, webCryptoKey)
+    const fromHttp = await signState(STATE, fallbackKey)
+    expect(fromHttp.signature).toBe(fromHttps.signature)
+
+    expect(await verifyState(fromHttps, fallbackKey)).toEqual({ check: 'valid', state: STATE })
+    expect(await verifyState(fromHttp, webCryptoKey)).toEqual({ check: 'valid', state: STATE })
+  })
+
+  it('rejects unsigned, changed and wrongly keyed messages without WebCrypto', async () => {
+    const secret = createRoomSecret()
+    const fallbackKey = await importFallbackKey(secret)
+    const signed = await signState(STATE, fallbackKey)
+
+    expect((await verifyState(STATE, fallbackKey)).check).toBe('unsigned')
+    expect((await verifyState({ ...signed, isRunning: false }, fallbackKey)).check).toBe('forged')
+    expect((await verifyState({ ...signed, signature: 'not base64!' }, fallbackKey)).check).toBe('forged')
+    expect((await verifyState(signed, await importFallbackKey(createRoomSecret()))).check).toBe('forged')
+  })
+})
@@ -0,0 +1,69 @@
+import { equalBytes } from '@noble/curves/utils.js'
+import { hkdf } from '@noble/hashes/hkdf.js'
+import { hmac as nobleHmac } from '@noble/hashes/hmac.js'
+import { sha256 } from '@noble/hashes/sha2.js'
+import { fromBase64Url, toBase64Url, toCanonicalJson } from './encoding'
+
+// Signed timer messages. Every room has a secret that only travels in the room link's fragment
+// (never to the sync server), and each published state carries an HMAC-SHA-256 of its content
+// made with a key derived from it. Knowing the channel name is then not enough to change the room's timers.
+// WebCrypto only exists on HTTPS pages (and localhost), but the self-hosted relay serves the app over plain HTTP
+// on the home network - there the same HMAC is computed with @noble/hashes
+
+// Outcome of checking a received message
+export type SignatureCheck = 'valid' | 'unsigned' | 'forged'
+
+// A room's HMAC key: a WebCrypto key, or the raw key bytes on plain-HTTP pages without WebCrypto
+export type SigningKey = CryptoKey | Uint8Array
+
+export const hasWebCrypto = () => typeof crypto !== 'undefined' && crypto.subtle !== undefined
+
+// Random bytes in a room secret - 256 bits
+const ROOM_SECRET_BYTES = 32
+
+// base64url, as created below
+const ROOM_SECRET_PATTERN = /^[A-Za-z0-9_-]{22,128}$/
+
+export const isValidRoomSecret = (secret: string) => ROOM_SECRET_PATTERN.test(secret)
+
+export const createRoomSecret = () => toBase64Url(crypto.getRandomValues(new Uint8Array(ROOM_SECRET_BYTES)))
+
+// HMAC key for a room, derived with HKDF so the secret itself is never used as a key directly
+// (and a key for one room is useless in another). With or without WebCrypto it's the same key
+export const importSigningKey = async (secret: string, roomId: string): Promise<SigningKey> => {
+  const salt = new TextEncoder().encode(roomId)
+  const info = new TextEncoder().encode('kid-timer message signing')
+  if (!hasWebCrypto()) return hkdf(sha256, fromBase64Url(secret), salt, info, 32)
+
+  const baseKey = await crypto.subtle.importKey('raw', fromBase64Url(secret), 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+const hmac = async (key: SigningKey, data: Uint8Array) =>
+  key instanceof Uint8Array ? nobleHmac(sha256, key, data) : new Uint8Array(await crypto.subtle.sign('HMAC', key, data))
+
+// The state with its signature added
+export const signState = async <T extends Record<string, any>>(state: T, key: SigningKey) => {
+  const signature = await hmac(key, new TextEncoder().encode(toCanonicalJson(state)))
+  return { ...state, signature: toBase64Url(signature) }
+}
+
+// Check a received message and hand back the state without its signature
+export const verifyState = async (message: Record<string, any>, key: SigningKey): Promise<{ check: SignatureCheck, state: Record<string, any> }> => {
+  const { signature, ...state } = message
+  if (typeof signature !== 'string') return { check: 'unsigned', state }
+
+  try {
+    const expected = await hmac(key, new TextEncoder().encode(toCanonicalJson(state)))
+    return { check: equalBytes(expected, fromBase64Url(signature)) ? 'valid' : 'forged', state }
+  } catch {
+    // Not even valid base64
+    return { check: 'forged', state }
+  }
+}
@@ -1,33 +1,98 @@
-import type { AppState } from './index'
+import { createTimerState, DEFAULT_INTERVAL, DEFAULT_TIMER_ID, DEFAULT_WARNING_THRESHOLDS_MS, getIntervalPhaseMs, getOvertimeMs, getSortedTimers, MIN_DURATION_MS } from './index'
+import { clockNow } from './clock'
+import type { ClockStatus } from './clock'
+import { updateRoomDevices } from './devices'
+import type { DeviceInfo } from './devices'
+import { canDeviceControl, EMPTY_ROLES, getDeviceRole, hasDisplays, toRolesState, withDeviceKeys } from './roles'
+import type { DeviceRole } from './roles'
+import { getRoomKey, getRoomSecret } from './rooms'
+import { DEVICE_ID, DEVICE_KEY } from '../config/config'
+import type { PresenceClient } from '../sync'
+import type { AppState, IntervalState, RejectedMessage, RoutineState, TimerMode, TimerState } from './index'
 
 export interface TimerActions {
+  // Timer collection actions
+  addTimer: (state: AppState, label: string, initialMinutes?: number) => AppState
+  removeTimer: (state: AppState, timerId: string) => AppState
+  renameTimer: (state: AppState, timerId: string, label: string) => AppState
+  setActiveTimer: (state: AppState, timerId: string) => AppState
+
+  // Room actions
+  joinRoom: (state: AppState, roomId: string) => AppState
+
+  // Routine actions
+  setRoutine: (state: AppState, timerId: string, name: string, steps: { name: string, durationMs: number }[]) => AppState
+  clearRoutine: (state: AppState, timerId: string) => AppState
+  skipRoutineStep: (state: AppState, timerId: string) => AppState
+
+  // Stopwatch actions
+  setTimerMode: (state: AppState, timerId: string, mode: TimerMode) => AppState
+  recordLap: (state: AppState, timerId: string) => AppState
+
+  // Interval actions
+  setIntervalCycle: (state: AppState, timerId: string, cycle: Pick<IntervalState, 'workMs' | 'shortBreakMs' | 'longBreakMs' | 'rounds'>) => AppState
+
+  // Overtime actions
+  setOvertimeCap: (state: AppState, timerId: string, capMs: number | null) => AppState
+
+  // Warning actions
+  setWarningThresholds: (state: AppState, timerId: string, thresholdsMs: number[]) => AppState
+  dismissWarning: (state: AppState, timerId: string) => AppState
+  acknowledgeCompletion: (state: AppState, timerId: string) => AppState
+
   // Timer control actions
-  startTimer: (state: AppState) => AppState
-  pauseTimer: (state: AppState) => AppState
-  resetTimer: (state: AppState, initialMinutes?: number) => AppState
+  startTimer: (state: AppState, timerId: string) => AppState
+  pauseTimer: (state: AppState, timerId: string) => AppState
+  resetTimer: (state: AppState, timerId: string, initialMinutes?: number) => AppState
   
+  // Wall-clock scheduling actions
+  endTimerAt: (state: AppState, timerId: string, endAt: number) => AppState
+  scheduleStart: (state: AppState, timerId: string, startAt: number) => AppState
+  cancelScheduledStart: (state: AppState, timerId: string) => AppState
+
   // Timer adjustment actions
-  addTime: (state: AppState, minutes: number) => AppState
-  removeTime: (state: AppState, minutes: number) => AppState
+  addTime: (state: AppState, timerId: string, minutes: number) => AppState
+  removeTime: (state: AppState, timerId: string, minutes: number) => AppState
   
   // Duration setting
-  setDuration: (state: AppState, durationMs: number) => AppState
+  setDuration: (state: AppState, timerId: string, durationMs: number) => AppState
   
+  // Role actions (only a controller can change them)
+  setDeviceRole: (state: AppState, deviceId: string, role: DeviceRole) => AppState
+
   // State synchronization from PubNub
   syncTimerState: (state: AppState, timerState: any) => AppState
+  syncRoles: (state: AppState, rolesState: any) => AppState
+  clearChangedTimers: (state: AppState, timerIds: string[]) => AppState
   
   // UI state actions
   setConnected: (state: AppState, isConnected: boolean) => AppState
+  setPendingSyncCount: (state: AppState, pendingSyncCount: number) => AppState
+  setClockStatus: (state: AppState, clock: ClockStatus) => AppState
+  setRoomKey: (state: AppState, roomKey: string | null) => AppState
+  setRoomSecret: (state: AppState, roomSecret: string) => AppState
+  quarantineMessage: (state: AppState, rejected: RejectedMessage) => AppState
+  dismissQuarantine: (state: AppState) => AppState
+  setDeviceInfo: (state: AppState, changes: Partial<DeviceInfo>) => AppState
+  updatePresence: (state: AppState, clients: PresenceClient[]) => AppState
   updateCurrentTime: (state: AppState, currentTime: number) => AppState
   
   // Computed state updates
   updateComputedState: (state: AppState) => AppState
+
+  // Undo/redo actions (history is local to this device)
+  undo: (state: AppState) => AppState
+  redo: (state: AppState) => AppState
+  dismissUndoNotice: (state: AppState) => AppState
 }
 
 // Helper function to calculate computed states
-const calculateComputedState = (timer: AppState['timer'], currentTime: number) => {
+const calculateComputedState = (timer: TimerState, currentTime: number) => {
   const isComplete = !timer.isRunning && timer.startTime && timer.endTime && currentTime >= timer.endTime
-  const isPaused = !timer.isRunning && timer.pausedRemainingMs !== undefined && timer.pausedRemainingMs !== null
+  const isPaused = !timer.isRunning && (
+    (timer.pausedRemainingMs !== undefined && timer.pausedRemainingMs !== null) ||
+    (timer.pausedElapsedMs !== undefined && timer.pausedElapsedMs !== null)
+  )
   
   return {
     ...timer,
@@ -36,188 +101,894 @@ const calculateComputedState = (timer: AppState['timer'], currentTime: number) =
   }
 }
 
-const actions = (_store: any): TimerActions => ({
-  startTimer: (state: AppState) => {
-    const now = Date.now()
-    let timeToRun = state.timer.durationMs
-    
-    // If timer was paused, use the stored paused remaining time
-    if (!state.timer.isRunning && state.timer.pausedRemainingMs !== undefined) {
-      timeToRun = state.timer.pausedRemainingMs
+// Helper function to note that an action on this device changed a timer - only those get published,
+// so a timer this device merely has (e.g. one missing from the history it loaded) never overwrites the room's
+const withChangedTimerId = (changedTimerIds: string[], timerId: string) =>
+  changedTimerIds.includes(timerId) ? changedTimerIds : [...changedTimerIds, timerId]
+
+// Helper function to store a locally changed timer back into the collection
+const withLocalTimer = (state: AppState, timer: TimerState): AppState => ({
+  ...state,
+  timers: {
+    ...state.timers,
+    [timer.id]: timer
+  },
+  ui: {
+    ...state.ui,
+    changedTimerIds: withChangedTimerId(state.ui.changedTimerIds, timer.id),
+    lastUpdateFromPubNub: false // Mark this as a local update
+  }
+})
+
+// How many timer actions can be undone
+const MAX_UNDO_HISTORY = 50
+
+// Helper function to store a locally changed timer and remember its previous state for undo
+const withUndoableTimer = (state: AppState, timer: TimerState, description: string, isDestructive = false): AppState => {
+  const previous = state.timers[timer.id]
+  const newState = withLocalTimer(state, timer)
+  if (!previous) return newState
+
+  const now = clockNow()
+  return {
+    ...newState,
+    undo: {
+      past: [...state.undo.past, { timerId: timer.id, description, timer: previous, capturedAt: now }].slice(-MAX_UNDO_HISTORY),
+      future: [], // A new action replaces anything that could be redone
+      notice: isDestructive ? { description, at: now } : state.undo.notice
     }
-    
-    const newStartTime = now
-    const newEndTime = now + timeToRun
-    
-    const newTimer = calculateComputedState({
-      ...state.timer,
+  }
+}
+
+// Helper function to bring a snapshot back to life, shifting its timestamps so a running
+// timer has exactly the time left (or elapsed) that it had when the snapshot was taken
+const restoreSnapshot = (timer: TimerState, capturedAt: number, now: number): TimerState => {
+  const shiftMs = now - capturedAt
+
+  return {
+    ...timer,
+    startTime: timer.startTime !== null ? timer.startTime + shiftMs : null,
+    endTime: timer.endTime !== null ? timer.endTime + shiftMs : null,
+    lastUpdated: now // Newer than anything published since, so every device takes it
+  }
+}
+
+// Helper function to restore the newest entry of one history stack (undo: past, redo: future),
+// pushing the timer's current state onto the other so the step can be reversed again
+const stepHistory = (state: AppState, from: 'past' | 'future', to: 'past' | 'future'): AppState => {
+  // Entries for timers removed since can't be restored - skip over them
+  const entries = [...state.undo[from]]
+  let entry = entries.pop()
+  while (entry && !state.timers[entry.timerId]) {
+    entry = entries.pop()
+  }
+  if (!entry) return state
+
+  const now = clockNow()
+  const current = state.timers[entry.timerId]
+  const restored = calculateComputedState(restoreSnapshot(entry.timer, entry.capturedAt, now), state.ui.currentTime)
+
+  console.log(from === 'past' ? '↩️ Redux: Undoing' : '↪️ Redux: Redoing', entry.description, 'on timer', entry.timerId)
+
+  const newState = withLocalTimer(state, restored)
+  return {
+    ...newState,
+    undo: {
+      ...state.undo,
+      [from]: entries,
+      [to]: [...state.undo[to], { ...entry, timer: current, capturedAt: now }],
+      notice: null
+    },
+    ui: {
+      ...newState.ui,
+      activeTimerId: entry.timerId // Show the timer that changed
+    }
+  }
+}
+
+// Helper function to check whether a routine has a step after the current one
+const hasNextRoutineStep = (timer: TimerState) =>
+  Boolean(timer.routine && timer.routine.currentStepIndex < timer.routine.steps.length - 1)
+
+// Helper function to stamp the current routine step as completed
+const completeRoutineStep = (routine: RoutineState, at: number): RoutineState => ({
+  ...routine,
+  steps: routine.steps.map((step, index) =>
+    index === routine.currentStepIndex ? { ...step, completedAt: at } : step
+  )
+})
+
+// Helper function to move a running routine on to its next step, starting at the given time
+const advanceRoutineStep = (timer: TimerState, at: number): TimerState => {
+  const routine = completeRoutineStep(timer.routine!, at)
+  const nextIndex = routine.currentStepIndex + 1
+  const nextStep = routine.steps[nextIndex]
+
+  return {
+    ...timer,
+    durationMs: nextStep.durationMs,
+    startTime: at,
+    endTime: at + nextStep.durationMs,
+    pausedRemainingMs: undefined,
+    lastUpdated: at,
+    runStartedAt: at, // Each step is a run of its own
+    routine: {
+      ...routine,
+      currentStepIndex: nextIndex,
+      steps: routine.steps.map((step, index) =>
+        index === nextIndex ? { ...step, startedAt: at } : step
+      )
+    }
+  }
+}
+
+// Helper function to rewind a routine to its first step
+const rewindRoutine = (routine: RoutineState): RoutineState => ({
+  ...routine,
+  currentStepIndex: 0,
+  steps: routine.steps.map((step) => ({ ...step, startedAt: null, completedAt: null }))
+})
+
+// Helper function to work out the phase after the current one (null once the long break is over)
+const getNextIntervalPhase = (interval: IntervalState): Pick<IntervalState, 'phase' | 'currentRound'> | null => {
+  switch (interval.phase) {
+    case 'work':
+      return interval.currentRound < interval.rounds
+        ? { phase: 'shortBreak', currentRound: interval.currentRound }
+        : { phase: 'longBreak', currentRound: interval.currentRound }
+    case 'shortBreak':
+      return { phase: 'work', currentRound: interval.currentRound + 1 }
+    case 'longBreak':
+      return null
+  }
+}
+
+// Helper function to switch a running interval timer to its next phase, starting at the given time
+const advanceIntervalPhase = (timer: TimerState, at: number): TimerState => {
+  const interval = { ...timer.interval!, ...getNextIntervalPhase(timer.interval!)! }
+  const durationMs = getIntervalPhaseMs(interval)
+
+  return {
+    ...timer,
+    durationMs,
+    startTime: at,
+    endTime: at + durationMs,
+    pausedRemainingMs: undefined,
+    lastUpdated: at,
+    runStartedAt: at, // Each phase is a run of its own
+    interval
+  }
+}
+
+// Helper function to rewind an interval cycle to the first work phase
+const rewindInterval = (interval: IntervalState): IntervalState => ({
+  ...interval,
+  currentRound: 1,
+  phase: 'work'
+})
+
+// Helper functions to roll a finished routine step or interval phase into the next one
+const hasNextSegment = (timer: TimerState) =>
+  hasNextRoutineStep(timer) || Boolean(timer.interval && getNextIntervalPhase(timer.interval))
+
+const advanceSegment = (timer: TimerState, at: number) =>
+  timer.interval ? advanceIntervalPhase(timer, at) : advanceRoutineStep(timer, at)
+
+// How many overtime records each timer keeps for review
+const MAX_OVERTIME_LOG = 20
+
+// Helper function to log the overtime of a finished timer that is about to be dealt with
+const recordOvertime = (timer: TimerState, now: number) => {
+  if (!timer.isComplete || !timer.endTime) return timer.overtimeLog
+
+  const record = { endedAt: timer.endTime, overtimeMs: getOvertimeMs(timer, now), resolvedAt: now }
+  console.log('📝 Recording overtime:', timer.id, record)
+  return [...timer.overtimeLog, record].slice(-MAX_OVERTIME_LOG)
+}
+
+// Helper function to start a timer over from scratch, keeping its identity and overtime settings
+const startOver = (timer: TimerState, durationMs: number, now: number, mode = timer.mode): TimerState => ({
+  ...createTimerState(timer.id, timer.label, durationMs, now, mode),
+  createdAt: timer.createdAt, // Keep the timer's position in the list
+  overtimeCapMs: timer.overtimeCapMs,
+  overtimeLog: recordOvertime(timer, now),
+  warningThresholdsMs: timer.warningThresholdsMs
+})
+
+// Helper function to set a timer running from the given time (resuming a pause if there is one)
+const runTimerFrom = (timer: TimerState, at: number): TimerState => {
+  if (timer.mode === 'stopwatch') {
+    // Shift the start back by the time already counted so elapsed = now - startTime
+    return {
+      ...timer,
       isRunning: true,
-      startTime: newStartTime,
-      endTime: newEndTime,
-      pausedRemainingMs: undefined, // Clear paused state when resuming
-      lastUpdated: now
-    }, state.ui.currentTime)
+      startTime: at - (timer.pausedElapsedMs ?? 0),
+      endTime: null,
+      scheduledStartTime: null,
+      pausedElapsedMs: undefined, // Clear paused state when resuming
+      lastUpdated: at
+    }
+  }
+
+  let timeToRun = timer.durationMs
+  
+  // If timer was paused, use the stored paused remaining time
+  if (!timer.isRunning && timer.pausedRemainingMs !== undefined) {
+    timeToRun = timer.pausedRemainingMs
+  }
+
+  // Stamp the start of the current routine step the first time it runs
+  let routine = timer.routine
+  if (routine && routine.steps[routine.currentStepIndex].startedAt === null) {
+    routine = {
+      ...routine,
+      steps: routine.steps.map((step, index) =>
+        index === routine!.currentStepIndex ? { ...step, startedAt: at } : step
+      )
+    }
+  }
+
+  return {
+    ...timer,
+    isRunning: true,
+    startTime: at,
+    endTime: at + timeToRun,
+    scheduledStartTime: null,
+    pausedRemainingMs: undefined, // Clear paused state when resuming
+    lastUpdated: at,
+    runStartedAt: timer.runStartedAt ?? at, // Resuming continues the same run
+    routine
+  }
+}
+
+// How many warning events are kept for the UI
+const MAX_WARNING_EVENTS = 20
+
+// Helper function to notice running countdowns crossing their warning thresholds.
+// Each threshold fires once per run on this device; thresholds already passed when
+// a run is first seen (joining late, reloading, starting below a threshold) are skipped
+const noticeWarnings = (warnings: AppState['warnings'], timers: AppState['timers'], currentTime: number): AppState['warnings'] => {
+  let fired = warnings.fired
+  let events = warnings.events
+
+  Object.values(timers).forEach((timer) => {
+    if (!timer.isRunning || timer.mode === 'stopwatch' || !timer.endTime || timer.runStartedAt === null) return
+
+    const remainingMs = timer.endTime - currentTime
+    const previous = fired[timer.id]
+    const isSameRun = previous?.runStartedAt === timer.runStartedAt
+    const handled = isSameRun
+      ? previous.thresholdsMs
+      : timer.warningThresholdsMs.filter((thresholdMs) => thresholdMs >= remainingMs)
+    const crossed = timer.warningThresholdsMs.filter((thresholdMs) =>
+      !handled.includes(thresholdMs) && remainingMs > 0 && remainingMs <= thresholdMs
+    )
+    if (isSameRun && crossed.length === 0) return
+
+    fired = { ...fired, [timer.id]: { runStartedAt: timer.runStartedAt, thresholdsMs: [...handled, ...crossed] } }
+
+    if (crossed.length > 0) {
+      // Crossing several at once (e.g. time removed) only warns about the closest one
+      const thresholdMs = Math.min(...crossed)
+      console.log('⚠️ Warning threshold crossed:', timer.id, thresholdMs)
+      events = [...events, { timerId: timer.id, runStartedAt: timer.runStartedAt, thresholdMs, firedAt: currentTime, dismissed: false }]
+        .slice(-MAX_WARNING_EVENTS)
+    }
+  })
+
+  return fired === warnings.fired ? warnings : { fired, events }
+}
+
+// Actions that change the room's timers or roles - a display device can only watch
+const CONTROLLER_ACTIONS: (keyof TimerActions)[] = [
+  'addTimer', 'removeTimer', 'renameTimer',
+  'setRoutine', 'clearRoutine', 'skipRoutineStep',
+  'setTimerMode', 'recordLap', 'setIntervalCycle', 'setOvertimeCap', 'setWarningThresholds',
+  'startTimer', 'pauseTimer', 'resetTimer',
+  'endTimerAt', 'scheduleStart', 'cancelScheduledStart',
+  'addTime', 'removeTime', 'setDuration',
+  'setDeviceRole', 'undo', 'redo'
+]
+
+// Helper function to turn the controller-only actions into no-ops while this device is a display.
+// The buttons are hidden there too, but shortcuts and notification actions still reach the store
+const restrictToControllers = (timerActions: TimerActions): TimerActions => {
+  const restricted: Record<string, (state: AppState, ...args: any[]) => AppState> = { ...timerActions }
+  CONTROLLER_ACTIONS.forEach((name) => {
+    const action = timerActions[name] as (state: AppState, ...args: any[]) => AppState
+    restricted[name] = (state: AppState, ...args: any[]) => {
+      if (!canDeviceControl(state.roles, DEVICE_ID, DEVICE_KEY)) {
+        console.log('🔒 Redux: Ignoring', name, '- this device is a display')
+        return state
+      }
+      return action(state, ...args)
+    }
+  })
+  return restricted as unknown as TimerActions
+}
+
+// How many rejected messages are kept for diagnostics
+const MAX_QUARANTINED_MESSAGES = 20
+
+const generateTimerId = () => `timer-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`
+
+const actions = (_store: any): TimerActions => restrictToControllers({
+  addTimer: (state: AppState, label: string, initialMinutes = 5) => {
+    const id = generateTimerId()
+    const newTimer = createTimerState(id, label.trim() || 'Timer', initialMinutes * 60 * 1000)
+
+    console.log('🆕 Redux: Adding timer', { id, label: newTimer.label })
+
+    const newState = withLocalTimer(state, newTimer)
+    return {
+      ...newState,
+      ui: {
+        ...newState.ui,
+        activeTimerId: id
+      }
+    }
+  },
+
+  removeTimer: (state: AppState, timerId: string) => {
+    // Always keep at least one timer around
+    if (!state.timers[timerId] || Object.keys(state.timers).length <= 1) return state
+
+    const { [timerId]: _removed, ...timers } = state.timers
+    const activeTimerId = state.ui.activeTimerId === timerId
+      ? getSortedTimers(timers)[0].id
+      : state.ui.activeTimerId
+
+    console.log('🗑️ Redux: Removing timer', timerId)
 
-    console.log('▶️ Redux: Starting timer:', { newStartTime, newEndTime, timeToRun })
-    
     return {
       ...state,
-      timer: newTimer,
+      timers,
       ui: {
         ...state.ui,
+        activeTimerId,
+        changedTimerIds: withChangedTimerId(state.ui.changedTimerIds, timerId), // Published as a tombstone
         lastUpdateFromPubNub: false // Mark this as a local update
       }
     }
   },
 
-  pauseTimer: (state: AppState) => {
-    const now = Date.now()
+  renameTimer: (state: AppState, timerId: string, label: string) => {
+    const timer = state.timers[timerId]
+    if (!timer || !label.trim()) return state
+
+    return withLocalTimer(state, {
+      ...timer,
+      label: label.trim(),
+      lastUpdated: clockNow()
+    })
+  },
+
+  setActiveTimer: (state: AppState, timerId: string) => {
+    if (!state.timers[timerId]) return state
+
+    return {
+      ...state,
+      ui: {
+        ...state.ui,
+        activeTimerId: timerId
+      }
+    }
+  },
+
+  joinRoom: (state: AppState, roomId: string) => {
+    const roomKey = getRoomKey(roomId)
+    const roomSecret = getRoomSecret(roomId)
+    if (roomId === state.ui.roomId) {
+      // Opening the current room's link again may have brought its encryption key
+      return roomKey === state.ui.roomKey ? state : { ...state, ui: { ...state.ui, roomKey } }
+    }
+
+    console.log('🚪 Redux: Joining room', roomId)
+
+    // Start from a fresh default timer - the new room's timers arrive from its history.
+    // Undo, warnings and silenced alarms belonged to the old room's timers
+    return {
+      ...state,
+      timers: {
+        [DEFAULT_TIMER_ID]: createTimerState(DEFAULT_TIMER_ID, 'Timer', 5 * 60 * 1000, 0)
+      },
+      roles: EMPTY_ROLES, // Roles belong to a room - the new room's arrive with its history
+      undo: {
+        past: [],
+        future: [],
+        notice: null
+      },
+      warnings: {
+        fired: {},
+        events: []
+      },
+      ui: {
+        ...state.ui,
+        roomId,
+        roomKey,
+        roomSecret,
+        pendingSyncCount: 0,
+        changedTimerIds: [],
+        quarantine: { messages: [], total: 0, dismissedTotal: 0 },
+        devices: {},
+        activeTimerId: DEFAULT_TIMER_ID,
+        acknowledgedCompletions: {},
+        lastUpdateFromPubNub: true // Nothing to publish - this isn't a change to the new room
+      }
+    }
+  },
+
+  setRoutine: (state: AppState, timerId: string, name: string, steps: { name: string, durationMs: number }[]) => {
+    const timer = state.timers[timerId]
+    if (!timer || steps.length === 0) return state
+
+    const routine = rewindRoutine({
+      name: name.trim() || 'Routine',
+      steps: steps.map((step) => ({ name: step.name.trim() || 'Step', durationMs: step.durationMs, startedAt: null, completedAt: null })),
+      currentStepIndex: 0
+    })
+
+    // Load the routine stopped on its first step
+    const newTimer: TimerState = {
+      ...startOver(timer, routine.steps[0].durationMs, clockNow(), 'countdown'),
+      label: routine.name,
+      routine
+    }
+
+    console.log('📋 Redux: Setting routine on timer', timerId, routine)
+
+    return withLocalTimer(state, newTimer)
+  },
+
+  clearRoutine: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer || !timer.routine) return state
+
+    const { routine: _routine, ...plainTimer } = timer
+
+    console.log('📋 Redux: Clearing routine from timer', timerId)
+
+    return withLocalTimer(state, {
+      ...plainTimer,
+      lastUpdated: clockNow()
+    })
+  },
+
+  skipRoutineStep: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer || !hasNextRoutineStep(timer)) return state
+
+    const now = clockNow()
+    let newTimer: TimerState
+
+    if (timer.isRunning) {
+      // Start the next step right away
+      newTimer = advanceRoutineStep(timer, now)
+    } else {
+      // Move on without starting - a paused routine stays paused on the next step
+      const routine = completeRoutineStep(timer.routine!, now)
+      const nextIndex = routine.currentStepIndex + 1
+      const nextStep = routine.steps[nextIndex]
+      newTimer = {
+        ...timer,
+        durationMs: nextStep.durationMs,
+        startTime: null,
+        endTime: null,
+        pausedRemainingMs: timer.isPaused ? nextStep.durationMs : undefined,
+        lastUpdated: now,
+        runStartedAt: null, // The next step gets a run of its own once it starts
+        routine: {
+          ...routine,
+          currentStepIndex: nextIndex
+        }
+      }
+    }
+
+    console.log('⏭️ Redux: Skipping to next routine step on timer', timerId)
+
+    return withLocalTimer(state, calculateComputedState(newTimer, state.ui.currentTime))
+  },
+
+  setTimerMode: (state: AppState, timerId: string, mode: TimerMode) => {
+    const timer = state.timers[timerId]
+    if (!timer || timer.mode === mode) return state
+
+    // Switching mode always starts over, stopped (and drops any routine)
+    const interval = mode === 'interval' ? DEFAULT_INTERVAL : undefined
+    const newTimer: TimerState = {
+      ...startOver(timer, interval ? getIntervalPhaseMs(interval) : timer.durationMs, clockNow(), mode),
+      interval
+    }
+
+    console.log('🔀 Redux: Switching timer', timerId, 'to', mode, 'mode')
+
+    return withLocalTimer(state, newTimer)
+  },
+
+  recordLap: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer || timer.mode !== 'stopwatch' || !timer.isRunning || !timer.startTime) return state
+
+    const now = clockNow()
+    const splitMs = now - timer.startTime
+
+    console.log('🏁 Redux: Recording lap on timer', timerId, { splitMs })
+
+    return withLocalTimer(state, {
+      ...timer,
+      laps: [...timer.laps, splitMs],
+      lastUpdated: now
+    })
+  },
+
+  setIntervalCycle: (state: AppState, timerId: string, cycle: Pick<IntervalState, 'workMs' | 'shortBreakMs' | 'longBreakMs' | 'rounds'>) => {
+    const timer = state.timers[timerId]
+    if (!timer || cycle.workMs <= 0 || cycle.rounds < 1) return state
+
+    const interval = rewindInterval({ ...DEFAULT_INTERVAL, ...cycle })
+
+    // Load the cycle stopped on the first work phase
+    const newTimer: TimerState = {
+      ...startOver(timer, getIntervalPhaseMs(interval), clockNow(), 'interval'),
+      interval
+    }
+
+    console.log('🍅 Redux: Setting interval cycle on timer', timerId, interval)
+
+    return withLocalTimer(state, newTimer)
+  },
+
+  setOvertimeCap: (state: AppState, timerId: string, capMs: number | null) => {
+    const timer = state.timers[timerId]
+    if (!timer) return state
+
+    console.log('⏱️ Redux: Setting overtime cap on timer', timerId, capMs)
+
+    return withLocalTimer(state, {
+      ...timer,
+      overtimeCapMs: capMs !== null && capMs > 0 ? capMs : null,
+      lastUpdated: clockNow()
+    })
+  },
+
+  setWarningThresholds: (state: AppState, timerId: string, thresholdsMs: number[]) => {
+    const timer = state.timers[timerId]
+    if (!timer) return state
+
+    // Largest first, without duplicates or non-positive values
+    const warningThresholdsMs = [...new Set(thresholdsMs.map(Math.round))]
+      .filter((thresholdMs) => thresholdMs > 0)
+      .sort((a, b) => b - a)
+
+    console.log('⚠️ Redux: Setting warning thresholds on timer', timerId, warningThresholdsMs)
+
+    return withLocalTimer(state, {
+      ...timer,
+      warningThresholdsMs,
+      lastUpdated: clockNow()
+    })
+  },
+
+  dismissWarning: (state: AppState, timerId: string) => {
+    if (!state.warnings.events.some((event) => event.timerId === timerId && !event.dismissed)) return state
+
+    return {
+      ...state,
+      warnings: {
+        ...state.warnings,
+        events: state.warnings.events.map((event) =>
+          event.timerId === timerId ? { ...event, dismissed: true } : event
+        )
+      }
+    }
+  },
+
+  acknowledgeCompletion: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer || !timer.isComplete || timer.endTime === null) return state
+
+    console.log('🔕 Redux: Acknowledging completion of timer', timerId)
+
+    // Local only - silences this device without changing the shared timer
+    return {
+      ...state,
+      ui: {
+        ...state.ui,
+        acknowledgedCompletions: {
+          ...state.ui.acknowledgedCompletions,
+          [timerId]: timer.endTime
+        }
+      }
+    }
+  },
+
+  startTimer: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer) return state
+
+    const newTimer = calculateComputedState(runTimerFrom(timer, clockNow()), state.ui.currentTime)
+
+    if (timer.mode === 'stopwatch') {
+      console.log('▶️ Redux: Starting stopwatch:', { timerId, startTime: newTimer.startTime })
+    } else {
+      console.log('▶️ Redux: Starting timer:', { timerId, newStartTime: newTimer.startTime, newEndTime: newTimer.endTime })
+    }
+    
+    return withUndoableTimer(state, newTimer, 'Start')
+  },
+
+  endTimerAt: (state: AppState, timerId: string, endAt: number) => {
+    const timer = state.timers[timerId]
+    if (!timer) return state
+
+    const now = clockNow()
+
+    if (timer.scheduledStartTime !== null && endAt > timer.scheduledStartTime) {
+      // Starts later - derive the duration so it lands exactly on the end time
+      console.log('🕰️ Redux: Scheduled timer', timerId, 'will end at', new Date(endAt).toLocaleTimeString())
+
+      return withLocalTimer(state, {
+        ...timer,
+        mode: 'countdown',
+        routine: undefined,
+        interval: undefined,
+        durationMs: endAt - timer.scheduledStartTime,
+        lastUpdated: now
+      })
+    }
+
+    if (endAt <= now) return state
+
+    // Run a plain countdown from now until the end time
+    const newTimer = calculateComputedState({
+      ...startOver(timer, endAt - now, now, 'countdown'),
+      isRunning: true,
+      startTime: now,
+      endTime: endAt,
+      runStartedAt: now
+    }, state.ui.currentTime)
+
+    console.log('🕰️ Redux: Timer', timerId, 'now ends at', new Date(endAt).toLocaleTimeString())
+
+    return withLocalTimer(state, newTimer)
+  },
+
+  scheduleStart: (state: AppState, timerId: string, startAt: number) => {
+    const timer = state.timers[timerId]
+    const now = clockNow()
+    if (!timer || startAt <= now) return state
+
+    // Wait, stopped and rewound, with the current duration - updateCurrentTime starts it on time
+    const newTimer: TimerState = {
+      ...startOver(timer, timer.durationMs, now),
+      routine: timer.routine && rewindRoutine(timer.routine),
+      interval: timer.interval && rewindInterval(timer.interval),
+      scheduledStartTime: startAt
+    }
+    if (newTimer.routine) newTimer.durationMs = newTimer.routine.steps[0].durationMs
+    if (newTimer.interval) newTimer.durationMs = getIntervalPhaseMs(newTimer.interval)
+
+    console.log('🕰️ Redux: Timer', timerId, 'will start at', new Date(startAt).toLocaleTimeString())
+
+    return withLocalTimer(state, newTimer)
+  },
+
+  cancelScheduledStart: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer || timer.scheduledStartTime === null) return state
+
+    console.log('🕰️ Redux: Cancelling scheduled start of timer', timerId)
+
+    return withLocalTimer(state, {
+      ...timer,
+      scheduledStartTime: null,
+      lastUpdated: clockNow()
+    })
+  },
+
+  pauseTimer: (state: AppState, timerId: string) => {
+    const timer = state.timers[timerId]
+    if (!timer) return state
+
+    const now = clockNow()
+
+    if (timer.mode === 'stopwatch') {
+      const elapsedMs = timer.isRunning && timer.startTime ? now - timer.startTime : (timer.pausedElapsedMs ?? 0)
+      const newTimer = calculateComputedState({
+        ...timer,
+        startTime: null,
+        endTime: null,
+        isRunning: false,
+        scheduledStartTime: null,
+        pausedElapsedMs: elapsedMs, // Store elapsed time when paused
+        lastUpdated: now
+      }, state.ui.currentTime)
+
+      console.log('⏸️ Redux: Pausing stopwatch:', { timerId, elapsedMs })
+
+      return withUndoableTimer(state, newTimer, 'Pause')
+    }
     
     // Calculate remaining time
-    let remainingMs = state.timer.durationMs
-    if (state.timer.isRunning && state.timer.endTime) {
-      remainingMs = Math.max(0, state.timer.endTime - now)
+    let remainingMs = timer.durationMs
+    if (timer.isRunning && timer.endTime) {
+      remainingMs = Math.max(0, timer.endTime - now)
     }
     
     const newTimer = calculateComputedState({
-      ...state.timer,
+      ...timer,
       startTime: null,
       endTime: null,
       isRunning: false,
+      scheduledStartTime: null,
       pausedRemainingMs: remainingMs, // Store remaining time when paused
       lastUpdated: now
     }, state.ui.currentTime)
 
-    console.log('⏸️ Redux: Pausing timer:', { remainingMs })
+    console.log('⏸️ Redux: Pausing timer:', { timerId, remainingMs })
     
-    return {
-      ...state,
-      timer: newTimer,
-      ui: {
-        ...state.ui,
-        lastUpdateFromPubNub: false // Mark this as a local update
-      }
-    }
+    return withUndoableTimer(state, newTimer, 'Pause')
   },
 
-  resetTimer: (state: AppState, initialMinutes = 5) => {
+  resetTimer: (state: AppState, timerId: string, initialMinutes = 5) => {
+    const timer = state.timers[timerId]
+    if (!timer) return state
+
     const initialDurationMs = initialMinutes * 60 * 1000
-    const now = Date.now()
+    const now = clockNow()
+    
+    // A routine always resets back to its first step, an interval cycle to its first work phase
+    const routine = timer.routine && rewindRoutine(timer.routine)
+    const interval = timer.interval && rewindInterval(timer.interval)
+    const durationMs = routine
+      ? routine.steps[0].durationMs
+      : interval ? getIntervalPhaseMs(interval) : initialDurationMs
     
     // Don't use calculateComputedState for reset - we want explicit control
-    const newTimer = {
-      durationMs: initialDurationMs,
-      startTime: null,
-      endTime: null,
-      isRunning: false,
-      pausedRemainingMs: undefined, // Clear paused state when resetting
-      lastUpdated: now,
-      isComplete: false,
-      isPaused: false
+    const newTimer: TimerState = {
+      ...startOver(timer, durationMs, now),
+      routine,
+      interval
     }
 
-    console.log('🔄 Redux: Resetting timer to', initialMinutes, 'minutes')
+    console.log('🔄 Redux: Resetting timer', timerId, 'to', initialMinutes, 'minutes')
     
-    return {
-      ...state,
-      timer: newTimer,
-      ui: {
-        ...state.ui,
-        lastUpdateFromPubNub: false // Mark this as a local update
-      }
-    }
+    return withUndoableTimer(state, newTimer, 'Reset', true)
   },
 
-  addTime: (state: AppState, minutes: number) => {
+  addTime: (state: AppState, timerId: string, minutes: number) => {
+    const timer = state.timers[timerId]
+    // A stopwatch has no duration to adjust
+    if (!timer || timer.mode === 'stopwatch') return state
+
     const additionalMs = minutes * 60 * 1000
-    const newDurationMs = state.timer.durationMs + additionalMs
-    const now = Date.now()
+    const newDurationMs = timer.durationMs + additionalMs
+    const now = clockNow()
     
-    let newTimer = { ...state.timer, durationMs: newDurationMs }
+    let newTimer = { ...timer, durationMs: newDurationMs }
     
-    if (state.timer.isRunning && state.timer.startTime && state.timer.endTime) {
+    if (timer.isRunning && timer.startTime && timer.endTime) {
       // If running, extend the end time
-      newTimer.endTime = state.timer.endTime + additionalMs
-    } else if (state.timer.isComplete) {
-      // If completed, clear the completed state and set new duration
+      newTimer.endTime = timer.endTime + additionalMs
+    } else if (timer.isComplete) {
+      // If completed (in overtime), log the overtime and resume counting down the added time
       newTimer = {
         ...newTimer,
-        startTime: null,
-        endTime: null,
-        isRunning: false,
+        startTime: now,
+        endTime: now + additionalMs,
+        isRunning: true,
         pausedRemainingMs: undefined,
+        overtimeLog: recordOvertime(timer, now),
+        runStartedAt: now // Extra time after the end counts as a fresh run, with its own warnings
       }
-    } else if (state.timer.pausedRemainingMs !== undefined) {
+    } else if (timer.pausedRemainingMs !== undefined) {
       // If paused, adjust the paused remaining time
-      newTimer.pausedRemainingMs = state.timer.pausedRemainingMs + additionalMs
+      newTimer.pausedRemainingMs = timer.pausedRemainingMs + additionalMs
     }
     
     newTimer.lastUpdated = now
     newTimer = calculateComputedState(newTimer, state.ui.currentTime)
 
-    console.log(`➕ Redux: Adding ${minutes} minutes to timer`)
+    console.log(`➕ Redux: Adding ${minutes} minutes to timer ${timerId}`)
     
-    return {
-      ...state,
-      timer: newTimer,
-      ui: {
-        ...state.ui,
-        lastUpdateFromPubNub: false // Mark this as a local update
-      }
-    }
+    return withUndoableTimer(state, newTimer, `Add ${minutes} min`)
   },
 
-  removeTime: (state: AppState, minutes: number) => {
+  removeTime: (state: AppState, timerId: string, minutes: number) => {
+    const timer = state.timers[timerId]
+    // A stopwatch has no duration to adjust
+    if (!timer || timer.mode === 'stopwatch') return state
+
     const reductionMs = minutes * 60 * 1000
-    const newDurationMs = Math.max(60 * 1000, state.timer.durationMs - reductionMs) // Minimum 1 minute
-    const now = Date.now()
+    const newDurationMs = Math.max(MIN_DURATION_MS, timer.durationMs - reductionMs)
+    const now = clockNow()
     
-    let newTimer = { ...state.timer, durationMs: newDurationMs }
+    let newTimer = { ...timer, durationMs: newDurationMs }
     
-    if (state.timer.isRunning && state.timer.startTime && state.timer.endTime) {
+    if (timer.isRunning && timer.startTime && timer.endTime) {
       // If running, reduce the end time but don't go below current time
-      const maxReduction = state.timer.endTime - now - 1000 // Leave at least 1 second
+      const maxReduction = timer.endTime - now - MIN_DURATION_MS // Leave at least 1 second
       const actualReduction = Math.min(reductionMs, Math.max(0, maxReduction))
-      newTimer.endTime = state.timer.endTime - actualReduction
-    } else if (state.timer.isComplete) {
-      // If completed, clear the completed state and set new duration
+      newTimer.endTime = timer.endTime - actualReduction
+    } else if (timer.isComplete) {
+      // If completed, log the overtime, clear the completed state and set new duration
       newTimer = {
         ...newTimer,
         startTime: null,
         endTime: null,
         isRunning: false,
         pausedRemainingMs: undefined,
+        overtimeLog: recordOvertime(timer, now)
       }
-    } else if (state.timer.pausedRemainingMs !== undefined) {
+    } else if (timer.pausedRemainingMs !== undefined) {
       // If paused, adjust the paused remaining time
-      newTimer.pausedRemainingMs = Math.max(60 * 1000, state.timer.pausedRemainingMs - reductionMs)
+      newTimer.pausedRemainingMs = Math.max(MIN_DURATION_MS, timer.pausedRemainingMs - reductionMs)
     }
     
     newTimer.lastUpdated = now
     newTimer = calculateComputedState(newTimer, state.ui.currentTime)
 
-    console.log(`➖ Redux: Removing ${minutes} minutes from timer`)
+    console.log(`➖ Redux: Removing ${minutes} minutes from timer ${timerId}`)
     
-    return {
-      ...state,
-      timer: newTimer,
-      ui: {
-        ...state.ui,
-        lastUpdateFromPubNub: false // Mark this as a local update
-      }
+    return withUndoableTimer(state, newTimer, `Remove ${minutes} min`, true)
+  },
+
+  setDuration: (state: AppState, timerId: string, durationMs: number) => {
+    const timer = state.timers[timerId]
+    // Only a plain countdown has a single duration to set
+    if (!timer || timer.mode !== 'countdown') return state
+
+    const now = clockNow()
+    const newDurationMs = Math.max(MIN_DURATION_MS, Math.round(durationMs))
+
+    // Start over with the new duration (dropping any routine), still running if it was
+    let newTimer = startOver(timer, newDurationMs, now)
+    if (timer.isRunning) {
+      newTimer = { ...newTimer, isRunning: true, startTime: now, endTime: now + newDurationMs, runStartedAt: now }
     }
+    newTimer = calculateComputedState(newTimer, state.ui.currentTime)
+
+    console.log('⏲️ Redux: Setting duration of timer', timerId, 'to', newDurationMs, 'ms')
+
+    return withUndoableTimer(state, newTimer, 'Set duration')
   },
 
-  setDuration: (state: AppState, durationMs: number) => {
-    const newTimer = calculateComputedState({
-      ...state.timer,
-      durationMs,
-      lastUpdated: Date.now()
-    }, state.ui.currentTime)
+  setDeviceRole: (state: AppState, deviceId: string, role: DeviceRole) => {
+    const assignments = { ...state.roles.assignments }
+    if (role === 'display') {
+      assignments[deviceId] = role
+    } else {
+      delete assignments[deviceId] // Controllers are the default
+    }
+
+    // Record the device keys the room trusts from now on: this device's own, the one whose role changes and,
+    // when the room gets its first display, every device seen so far - until now they could all control it
+    const knownDevices = Object.values(state.ui.devices)
+    const deviceKeys: Record<string, string> = { [DEVICE_ID]: DEVICE_KEY }
+    knownDevices.forEach((device) => {
+      if (device.deviceKey && (device.deviceId === deviceId || !hasDisplays(state.roles))) {
+        deviceKeys[device.deviceId] = device.deviceKey
+      }
+    })
+    const roles = withDeviceKeys({ assignments, keys: state.roles.keys, lastUpdated: clockNow() }, deviceKeys)
+
+    if (getDeviceRole(roles, deviceId) !== role) {
+      console.log('⚠️ Redux: Keeping', deviceId, 'as a display - it has not shared a device key yet')
+      return state
+    }
+
+    // Never demote the last controller we know of - nobody could assign roles any more
+    const knownDeviceIds = new Set([DEVICE_ID, ...knownDevices.map((device) => device.deviceId)])
+    if (![...knownDeviceIds].some((id) => getDeviceRole(roles, id) === 'controller')) {
+      console.log('⚠️ Redux: Keeping', deviceId, 'as a controller - the room needs at least one')
+      return state
+    }
+
+    console.log('🎛️ Redux: Setting role of device', deviceId, 'to', role)
 
     return {
       ...state,
-      timer: newTimer,
+      roles,
       ui: {
         ...state.ui,
         lastUpdateFromPubNub: false // Mark this as a local update
@@ -226,24 +997,100 @@ const actions = (_store: any): TimerActions => ({
   },
 
   syncTimerState: (state: AppState, timerState: any) => {
+    // A display can't change the room, however its client was modified to publish
+    if (!canDeviceControl(state.roles, timerState.deviceId, timerState.deviceKey)) {
+      console.log('🚫 Redux: Rejecting timer state from display device:', timerState.deviceId)
+      return state
+    }
+
+    // A change made here that isn't queued yet gets a later counter than anything received so far once it is,
+    // so it wins everywhere - keep it rather than show the older state until it's published
+    if (state.ui.changedTimerIds.includes(timerState.id)) {
+      console.log('⏸️ Redux: Keeping the local change not published yet for', timerState.id)
+      return state
+    }
+
+    const existing = state.timers[timerState.id]
+
+    // A removed timer is published as a tombstone
+    if (timerState.deleted) {
+      if (!existing) return state
+
+      const { [timerState.id]: _removed, ...timers } = state.timers
+      // Never end up with an empty room - fall back to a fresh default timer
+      const remaining = Object.keys(timers).length > 0
+        ? timers
+        : { [DEFAULT_TIMER_ID]: createTimerState(DEFAULT_TIMER_ID, 'Timer', 5 * 60 * 1000, 0) }
+      const activeTimerId = remaining[state.ui.activeTimerId]
+        ? state.ui.activeTimerId
+        : getSortedTimers(remaining)[0].id
+
+      console.log('🔄 Redux: Removing timer from PubNub:', timerState.id)
+
+      return {
+        ...state,
+        timers: remaining,
+        ui: {
+          ...state.ui,
+          activeTimerId,
+          lastUpdateFromPubNub: true // Mark this update as coming from PubNub
+        }
+      }
+    }
+
     // Sync with incoming PubNub state, but preserve computed states
     // Convert null back to undefined for pausedRemainingMs (PubNub converts undefined to null)
     const newTimer = calculateComputedState({
+      id: timerState.id,
+      label: timerState.label ?? existing?.label ?? 'Timer',
+      mode: timerState.mode ?? 'countdown',
+      createdAt: timerState.createdAt ?? existing?.createdAt ?? timerState.lastUpdated,
       durationMs: timerState.durationMs,
       startTime: timerState.startTime,
       endTime: timerState.endTime,
+      scheduledStartTime: timerState.scheduledStartTime ?? null,
       isRunning: timerState.isRunning,
       pausedRemainingMs: timerState.pausedRemainingMs === null ? undefined : timerState.pausedRemainingMs,
+      pausedElapsedMs: timerState.pausedElapsedMs ?? undefined,
+      laps: timerState.laps ?? [],
       lastUpdated: timerState.lastUpdated,
       isComplete: false, // Will be recalculated
-      isPaused: false // Will be recalculated
+      isPaused: false, // Will be recalculated
+      routine: timerState.routine ?? undefined,
+      interval: timerState.interval ?? undefined,
+      overtimeCapMs: timerState.overtimeCapMs ?? null,
+      overtimeLog: timerState.overtimeLog ?? [],
+      warningThresholdsMs: timerState.warningThresholdsMs ?? DEFAULT_WARNING_THRESHOLDS_MS,
+      runStartedAt: timerState.runStartedAt ?? null
     }, state.ui.currentTime)
 
     console.log('🔄 Redux: Syncing timer state from PubNub:', timerState)
     
     return {
       ...state,
-      timer: newTimer,
+      timers: {
+        ...state.timers,
+        [newTimer.id]: newTimer
+      },
+      ui: {
+        ...state.ui,
+        lastUpdateFromPubNub: true // Mark this update as coming from PubNub
+      }
+    }
+  },
+
+  syncRoles: (state: AppState, rolesState: any) => {
+    // Only a controller may hand out roles - otherwise a display could promote itself
+    if (!canDeviceControl(state.roles, rolesState.deviceId, rolesState.deviceKey)) {
+      console.log('🚫 Redux: Rejecting roles from display device:', rolesState.deviceId)
+      return state
+    }
+
+    console.log('🔄 Redux: Syncing roles from PubNub:', rolesState)
+
+    return {
+      ...state,
+      roles: toRolesState(rolesState),
       ui: {
         ...state.ui,
         lastUpdateFromPubNub: true // Mark this update as coming from PubNub
@@ -251,6 +1098,14 @@ const actions = (_store: any): TimerActions => ({
     }
   },
 
+  clearChangedTimers: (state: AppState, timerIds: string[]) => ({
+    ...state,
+    ui: {
+      ...state.ui,
+      changedTimerIds: state.ui.changedTimerIds.filter((id) => !timerIds.includes(id))
+    }
+  }),
+
   setConnected: (state: AppState, isConnected: boolean) => ({
     ...state,
     ui: {
@@ -259,58 +1114,184 @@ const actions = (_store: any): TimerActions => ({
     }
   }),
 
-  updateCurrentTime: (state: AppState, currentTime: number) => {
-    // Update current time and recalculate computed states
-    let newTimer = { ...state.timer }
-    let timerChanged = false
-    
-    // Check if running timer should auto-stop
-    if (state.timer.isRunning && state.timer.endTime && currentTime >= state.timer.endTime) {
-      console.log('⏰ Timer completed, auto-stopping')
-      newTimer = {
-        ...newTimer,
-        isRunning: false,
-        lastUpdated: currentTime
+  setPendingSyncCount: (state: AppState, pendingSyncCount: number) => ({
+    ...state,
+    ui: {
+      ...state.ui,
+      pendingSyncCount
+    }
+  }),
+
+  setClockStatus: (state: AppState, clock: ClockStatus) => ({
+    ...state,
+    ui: {
+      ...state.ui,
+      clock
+    }
+  }),
+
+  setRoomKey: (state: AppState, roomKey: string | null) => {
+    console.log('🔐 Redux: Encryption', roomKey ? 'on' : 'off', 'for this room')
+
+    return {
+      ...state,
+      ui: {
+        ...state.ui,
+        roomKey
       }
-      timerChanged = true
     }
-    
-    // Only recalculate computed state if timer actually changed
-    if (timerChanged) {
-      newTimer = calculateComputedState(newTimer, currentTime)
-    } else {
-      // Just update computed states without creating new timer object
-      const computedTimer = calculateComputedState(newTimer, currentTime)
-      // Only update if computed states actually changed
-      if (computedTimer.isComplete !== newTimer.isComplete || computedTimer.isPaused !== newTimer.isPaused) {
-        newTimer = computedTimer
-        timerChanged = true
+  },
+
+  setRoomSecret: (state: AppState, roomSecret: string) => {
+    console.log('🔑 Redux: New secret for this room')
+
+    return {
+      ...state,
+      ui: {
+        ...state.ui,
+        roomSecret
       }
     }
+  },
+
+  quarantineMessage: (state: AppState, rejected: RejectedMessage) => {
+    console.log('🚫 Redux: Quarantining message -', rejected.reason, rejected.stateId)
+
+    return {
+      ...state,
+      ui: {
+        ...state.ui,
+        quarantine: {
+          ...state.ui.quarantine,
+          messages: [...state.ui.quarantine.messages, rejected].slice(-MAX_QUARANTINED_MESSAGES),
+          total: state.ui.quarantine.total + 1
+        }
+      }
+    }
+  },
+
+  dismissQuarantine: (state: AppState) => ({
+    ...state,
+    ui: {
+      ...state.ui,
+      quarantine: {
+        ...state.ui.quarantine,
+        dismissedTotal: state.ui.quarantine.total
+      }
+    }
+  }),
+
+  setDeviceInfo: (state: AppState, changes: Partial<DeviceInfo>) => ({
+    ...state,
+    ui: {
+      ...state.ui,
+      device: {
+        ...state.ui.device,
+        ...changes
+      }
+    }
+  }),
+
+  updatePresence: (state: AppState, clients: PresenceClient[]) => ({
+    ...state,
+    ui: {
+      ...state.ui,
+      devices: updateRoomDevices(state.ui.devices, clients, clockNow())
+    }
+  }),
+
+  updateCurrentTime: (state: AppState, currentTime: number) => {
+    // Update current time and recalculate computed states for every timer
+    let timers = state.timers
+    let timersChanged = false
+
+    Object.values(state.timers).forEach((timer) => {
+      let newTimer = timer
+      let timerChanged = false
+
+      // Scheduled timers start by themselves, counted from the scheduled time
+      // so every device agrees no matter when it notices
+      if (!newTimer.isRunning && newTimer.scheduledStartTime !== null && currentTime >= newTimer.scheduledStartTime) {
+        console.log('🕰️ Scheduled start reached, starting:', timer.id)
+        newTimer = runTimerFrom(newTimer, newTimer.scheduledStartTime)
+        timerChanged = true
+      }
+
+      // Routines and interval cycles move on to their next step/phase instead of stopping
+      // (several at once if this device was asleep through them)
+      while (newTimer.isRunning && newTimer.endTime && currentTime >= newTimer.endTime && hasNextSegment(newTimer)) {
+        console.log('⏭️ Step finished, advancing:', timer.id)
+        newTimer = advanceSegment(newTimer, newTimer.endTime)
+        timerChanged = true
+      }
+
+      // Check if running timer should auto-stop
+      if (newTimer.isRunning && newTimer.endTime && currentTime >= newTimer.endTime) {
+        console.log('⏰ Timer completed, auto-stopping:', timer.id)
+        newTimer = {
+          ...newTimer,
+          isRunning: false,
+          lastUpdated: currentTime,
+          routine: newTimer.routine && completeRoutineStep(newTimer.routine, newTimer.endTime)
+        }
+        timerChanged = true
+      }
+
+      // Only recalculate computed state if timer actually changed
+      if (timerChanged) {
+        newTimer = calculateComputedState(newTimer, currentTime)
+      } else {
+        // Just update computed states without creating new timer object
+        const computedTimer = calculateComputedState(newTimer, currentTime)
+        // Only update if computed states actually changed
+        if (computedTimer.isComplete !== newTimer.isComplete || computedTimer.isPaused !== newTimer.isPaused) {
+          newTimer = computedTimer
+          timerChanged = true
+        }
+      }
+
+      if (timerChanged) {
+        timers = { ...timers, [timer.id]: newTimer }
+        timersChanged = true
+      }
+    })
     
     return {
       ...state,
       ui: {
         ...state.ui,
         currentTime,
-        lastUpdateFromPubNub: timerChanged ? false : state.ui.lastUpdateFromPubNub // Reset flag if timer changed locally
+        lastUpdateFromPubNub: timersChanged ? false : state.ui.lastUpdateFromPubNub // Reset flag if timer changed locally
       },
-      timer: timerChanged ? newTimer : state.timer // Only update timer if it actually changed
+      timers, // Only a new object if a timer actually changed
+      warnings: noticeWarnings(state.warnings, timers, currentTime)
     }
   },
 
   updateComputedState: (state: AppState) => {
-    const newTimer = calculateComputedState(state.timer, state.ui.currentTime)
+    const timers: AppState['timers'] = {}
+    Object.values(state.timers).forEach((timer) => {
+      timers[timer.id] = calculateComputedState(timer, state.ui.currentTime)
+    })
     
     return {
       ...state,
-      timer: newTimer,
+      timers,
       ui: {
         ...state.ui,
         lastUpdateFromPubNub: false // Mark this as a local update
       }
     }
-  }
+  },
+
+  undo: (state: AppState) => stepHistory(state, 'past', 'future'),
+
+  redo: (state: AppState) => stepHistory(state, 'future', 'past'),
+
+  dismissUndoNotice: (state: AppState) => state.undo.notice ? {
+    ...state,
+    undo: { ...state.undo, notice: null }
+  } : state
 })
 
 export default actions
@@ -0,0 +1,45 @@
+// Shared clock: device time corrected by its measured offset from a common time reference.
+// Timer timestamps are absolute, so every device must agree on "now" to show the same remaining time
+
+// Returns the reference time as an epoch timestamp in ms
+export type TimeSource = () => Promise<number>
+
+export interface ClockStatus {
+  source: string // Name of the time source, e.g. 'pubnub' (the transport's time service) or 'local'
+  offsetMs: number // Add to Date.now() to get the reference time
+  roundTripMs: number | null // Round trip of the best sample (the offset is accurate to about half of it)
+  measuredAt: number | null // Device time of the last measurement
+}
+
+// Samples per measurement - the one with the fastest round trip is the most accurate
+const SAMPLE_COUNT = 5
+
+let offsetMs = 0
+
+// Current time on the shared clock (use instead of Date.now() for anything timer related)
+export const clockNow = () => Date.now() + offsetMs
+
+// Device clock shifted by a fixed amount - for trying out clock skew without a second device
+export const createLocalTimeSource = (skewMs = 0): TimeSource =>
+  async () => Date.now() + skewMs
+
+// Estimate this device's offset from the time source (NTP-style: assume the reference
+// time was read halfway through the round trip) and start using it
+export const measureClockOffset = async (source: TimeSource, sourceName: string): Promise<ClockStatus> => {
+  let best: { offsetMs: number, roundTripMs: number } | null = null
+
+  for (let i = 0; i < SAMPLE_COUNT; i++) {
+    const sentAt = Date.now()
+    const referenceTime = await source()
+    const receivedAt = Date.now()
+    const roundTripMs = receivedAt - sentAt
+
+    if (!best || roundTripMs < best.roundTripMs) {
+      best = { offsetMs: Math.round(referenceTime - (sentAt + receivedAt) / 2), roundTripMs }
+    }
+  }
+
+  offsetMs = best!.offsetMs
+  console.log('🕰️ Clock offset measured:', offsetMs, 'ms (round trip', best!.roundTripMs, 'ms)')
+  return { source: sourceName, offsetMs, roundTripMs: best!.roundTripMs, measuredAt: Date.now() }
+}
@@ -0,0 +1,83 @@
+import { DEVICE_ID, DEVICE_KEY } from '../config/config'
+import type { PresenceClient } from '../sync'
+
+// Devices in the room, as seen through presence. Each device shares a friendly name, its device id
+// and its public device key, so the others know who's watching and can assign it a role (see roles.ts)
+
+// How this device introduces itself (saved on this device)
+export interface DeviceInfo {
+  name: string // e.g. "Kitchen iPad"
+}
+
+export interface RoomDevice extends DeviceInfo {
+  clientId: string
+  deviceId: string // Stamped on the states it publishes - roles are assigned by device id
+  deviceKey: string | null // Public key it signs its states with (see security/device-keys.ts), null for older clients
+  isOnline: boolean
+  lastSeenAt: number // When it was last in presence (when it left, for offline devices)
+}
+
+const DEVICE_INFO_KEY = 'device-info'
+
+// A reasonable first name from the browser, e.g. "iPad" or "Android phone" - renamed in settings
+const guessDeviceName = () => {
+  const userAgent = navigator.userAgent
+  if (/iPad/.test(userAgent) || (/Macintosh/.test(userAgent) && navigator.maxTouchPoints > 1)) return 'iPad'
+  if (/iPhone/.test(userAgent)) return 'iPhone'
+  if (/Android/.test(userAgent)) return /Mobile/.test(userAgent) ? 'Android phone' : 'Android tablet'
+  if (/CrOS/.test(userAgent)) return 'Chromebook'
+  if (/Macintosh/.test(userAgent)) return 'Mac'
+  if (/Windows/.test(userAgent)) return 'Windows PC'
+  if (/Linux/.test(userAgent)) return 'Linux computer'
+  return 'Web browser'
+}
+
+export const loadDeviceInfo = (): DeviceInfo => {
+  const defaults: DeviceInfo = { name: guessDeviceName() }
+  try {
+    const saved = JSON.parse(localStorage.getItem(DEVICE_INFO_KEY) ?? '{}')
+    return { name: typeof saved.name === 'string' ? saved.name : defaults.name }
+  } catch {
+    return defaults
+  }
+}
+
+export const saveDeviceInfo = (info: DeviceInfo) => {
+  localStorage.setItem(DEVICE_INFO_KEY, JSON.stringify(info))
+}
+
+// Presence state published for this device
+export const toPresenceState = (info: DeviceInfo) => ({ name: info.name, deviceId: DEVICE_ID, deviceKey: DEVICE_KEY })
+
+// Fold a presence update into the devices seen so far: everyone listed is online, and anyone
+// missing from the list went offline just now. Clients that haven't shared a name yet show their id
+export const updateRoomDevices = (devices: Record<string, RoomDevice>, clients: PresenceClient[], now: number) => {
+  const updated: Record<string, RoomDevice> = {}
+
+  Object.values(devices).forEach((device) => {
+    updated[device.clientId] = device.isOnline ? { ...device, isOnline: false, lastSeenAt: now } : device
+  })
+
+  clients.forEach(({ clientId, state }) => {
+    const previous = devices[clientId]
+    updated[clientId] = {
+      clientId,
+      name: typeof state?.name === 'string' && state.name.trim() ? state.name : previous?.name ?? clientId,
+      deviceId: typeof state?.deviceId === 'string' ? state.deviceId : previous?.deviceId ?? clientId,
+      deviceKey: typeof state?.deviceKey === 'string' ? state.deviceKey : previous?.deviceKey ?? null,
+      isOnline: true,
+      lastSeenAt: now,
+    }
+  })
+
+  return updated
+}
+
+// "just now", "5 min ago", "2 h ago" or a date for anything older than a day
+export const formatLastSeen = (lastSeenAt: number, now: number) => {
+  const minutes = Math.floor(Math.max(0, now - lastSeenAt) / (60 * 1000))
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`
+  return new Date(lastSeenAt).toLocaleDateString([], { dateStyle: 'medium' })
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { createMemoryHub, createMemoryTransport } from '../sync/memory-transport'
+import { getStatesToRepublish, HISTORY_COUNT } from './history-window'
+
+const CHANNEL = 'kid-timer-history-test'
+
+const ROLES = { id: 'room-roles', assignments: { 'device-tablet': 'display' }, deviceId: 'device-parent', counter: 1 }
+const IDLE_TIMER = { id: 'timer-homework', label: 'Homework', isRunning: false, deviceId: 'device-parent', counter: 2 }
+
+const busyTimer = (counter: number) => ({ id: 'default', isRunning: counter % 2 === 0, deviceId: 'device-parent', counter })
+
+describe('history-window', () => {
+  it('leaves states alone while the history window has room', () => {
+    const history = [ROLES, IDLE_TIMER, ...Array.from({ length: 50 }, (_, i) => busyTimer(i + 3))]
+    expect(getStatesToRepublish({ [ROLES.id]: ROLES, [IDLE_TIMER.id]: IDLE_TIMER }, history)).toEqual([])
+  })
+
+  it('picks states in the older half of a full window, and states already gone', () => {
+    const history = [IDLE_TIMER, ...Array.from({ length: HISTORY_COUNT - 1 }, (_, i) => busyTimer(i + 3))]
+    const latest = history[history.length - 1]
+    const shared = { [ROLES.id]: ROLES, [IDLE_TIMER.id]: IDLE_TIMER, default: latest }
+
+    expect(getStatesToRepublish(shared, history)).toEqual([ROLES.id, IDLE_TIMER.id])
+  })
+
+  it('keeps the roles and idle timers in reach of devices loading the room later', async () => {
+    const hub = createMemoryHub()
+    const controller = createMemoryTransport(hub, 'device-parent')
+    const shared: Record<string, object> = { [ROLES.id]: ROLES, [IDLE_TIMER.id]: IDLE_TIMER }
+    await controller.publish(CHANNEL, ROLES)
+    await controller.publish(CHANNEL, IDLE_TIMER)
+
+    // A busy timer, with the controller checking the window every so often
+    for (let counter = 3; counter < 500; counter++) {
+      await controller.publish(CHANNEL, busyTimer(counter))
+      if (counter % 40 === 0) {
+        const history = await controller.fetchHistory(CHANNEL, HISTORY_COUNT)
+        for (const id of getStatesToRepublish(shared, history)) {
+          await controller.publish(CHANNEL, shared[id])
+        }
+      }
+    }
+
+    const lateJoiner = createMemoryTransport(hub, 'device-tablet')
+    const history = await lateJoiner.fetchHistory(CHANNEL, HISTORY_COUNT)
+    expect(history).toContainEqual(ROLES)
+    expect(history).toContainEqual(IDLE_TIMER)
+  })
+})
@@ -0,0 +1,24 @@
+import { toCanonicalJson } from '../security/encoding'
+
+// Devices that load a room rebuild it from the last HISTORY_COUNT messages only. A state nobody has changed
+// for a while - the room's roles, an idle timer - would scroll out of that window behind busier timers, and
+// a device loading the room afterwards would never hear of it (a display would even come back without its
+// role). So controllers publish the current states again, unchanged, before they get that far
+
+// How many messages to read back from history when rebuilding the room's timers
+export const HISTORY_COUNT = 100
+
+// How often a controller checks that the room's current states are still in the history window
+export const HISTORY_CHECK_INTERVAL_MS = 5 * 60 * 1000
+
+// Helper function to find which current states (as published, by state id) need publishing again: the ones
+// missing from the fetched history, and - once the window is full - the ones in its older half
+export const getStatesToRepublish = (sharedMessages: Record<string, object>, history: any[], historyCount = HISTORY_COUNT) => {
+  const positions = new Map(history.map((message, index) => [toCanonicalJson(message), index]))
+  const oldestSafePosition = history.length < historyCount ? 0 : history.length - Math.floor(historyCount / 2)
+
+  return Object.keys(sharedMessages).filter((id) => {
+    const position = positions.get(toCanonicalJson(sharedMessages[id]))
+    return position === undefined || position < oldestSafePosition
+  })
+}
@@ -1,42 +1,260 @@
 import createStore from 'redux-zero'
 import { applyMiddleware } from 'redux-zero/middleware'
 import { connect } from 'redux-zero/devtools'
+import { clockNow } from './clock'
+import type { ClockStatus } from './clock'
+import { getInitialRoomId, getRoomKey, getRoomSecret } from './rooms'
+import { loadDeviceInfo } from './devices'
+import type { DeviceInfo, RoomDevice } from './devices'
+import { EMPTY_ROLES } from './roles'
+import type { RolesState } from './roles'
+import type { DecryptionFailure } from '../security/encryption'
+import type { SignatureCheck } from '../security/signing'
+
+export interface RoutineStep {
+  name: string // e.g. "Brush teeth"
+  durationMs: number // Planned duration of this step
+  startedAt: number | null // Epoch timestamp when the step first started (null if not reached yet)
+  completedAt: number | null // Epoch timestamp when the step ended (null if not finished yet)
+}
+
+export interface RoutineState {
+  name: string // e.g. "Bedtime"
+  steps: RoutineStep[]
+  currentStepIndex: number // Step the timer is currently counting down
+}
+
+export type IntervalPhase = 'work' | 'shortBreak' | 'longBreak'
+
+export interface IntervalState {
+  workMs: number // Length of each work phase
+  shortBreakMs: number // Break between work rounds
+  longBreakMs: number // Break after the last round
+  rounds: number // Work rounds before the long break
+  currentRound: number // 1-based round the cycle is in
+  phase: IntervalPhase // Phase the timer is currently counting down
+}
+
+export type TimerMode = 'countdown' | 'stopwatch' | 'interval'
+
+export interface OvertimeRecord {
+  endedAt: number // Epoch timestamp when the countdown reached zero
+  overtimeMs: number // How long it ran past zero before someone dealt with it
+  resolvedAt: number // Epoch timestamp when time was added, or the timer was reset/restarted
+}
 
 export interface TimerState {
+  id: string // Unique timer id, shared by every device in the room
+  label: string // Display name, e.g. "Bath time"
+  mode: TimerMode // Count down from durationMs, count up from startTime, or cycle work/break phases
+  createdAt: number // Epoch timestamp when the timer was created (used for ordering)
   durationMs: number // Total duration in milliseconds
-  startTime: number | null // Epoch timestamp when timer started (null if not started)
+  startTime: number | null // Epoch timestamp when timer started (null if not started; shifted back by earlier runs in stopwatch mode)
   endTime: number | null // Epoch timestamp when timer should end (null if not started)
+  scheduledStartTime: number | null // Epoch timestamp when the timer starts by itself (null if not scheduled)
   isRunning: boolean
   pausedRemainingMs?: number // Remaining time when paused (null if not paused)
+  pausedElapsedMs?: number // Stopwatch time counted so far when paused (null if not paused)
+  laps: number[] // Stopwatch split times (elapsed ms when each lap was recorded)
   lastUpdated: number // When this state was published
   isComplete: boolean // Computed state for UI
   isPaused: boolean // Computed state for UI
+  routine?: RoutineState // Ordered steps that run one after another (undefined for a plain timer)
+  interval?: IntervalState // Work/break cycle (only in interval mode)
+  overtimeCapMs: number | null // Stop counting overtime after this long (null for no cap)
+  overtimeLog: OvertimeRecord[] // Past overtime amounts for later review, oldest first
+  warningThresholdsMs: number[] // Warn when this much time is left, e.g. 5 min, 2 min, 30 s
+  runStartedAt: number | null // Epoch timestamp when the current countdown run began (kept across pause/resume and time changes)
+}
+
+export interface WarningEvent {
+  timerId: string
+  runStartedAt: number // Run the warning belongs to
+  thresholdMs: number // Threshold that was crossed
+  firedAt: number // When this device noticed the crossing
+  dismissed: boolean
+}
+
+export interface UndoEntry {
+  timerId: string
+  description: string // Short name of the action, e.g. "Reset"
+  timer: TimerState // Timer as it was before the action
+  capturedAt: number // When the snapshot was taken (running timers are re-based on restore)
+}
+
+// A received message that failed the signature check (or couldn't be decrypted) - kept aside for diagnostics, never applied
+export interface RejectedMessage {
+  stateId: string | null // Timer (or roles) id the message claimed, if any
+  reason: Exclude<SignatureCheck, 'valid'> | DecryptionFailure
+  source: 'live' | 'history'
+  receivedAt: number
+  message: any
 }
 
 export interface AppState {
-  timer: TimerState
+  timers: Record<string, TimerState> // All timers in the room, keyed by id
+  roles: RolesState // Which devices may control the room's timers (synced, changed from a controller)
+  undo: { // Local undo/redo history (not synced)
+    past: UndoEntry[] // Oldest first
+    future: UndoEntry[] // Entries that can be redone, oldest first
+    notice: { description: string, at: number } | null // Last destructive action, for the Undo snackbar
+  }
+  warnings: { // Time-remaining warnings noticed on this device (not synced)
+    fired: Record<string, { runStartedAt: number, thresholdsMs: number[] }> // Thresholds already handled per timer run
+    events: WarningEvent[] // Newest last
+  }
   ui: {
+    roomId: string // Room this device is in, from the URL (each room syncs on its own channel)
+    roomKey: string | null // The room's encryption key when it has a passphrase (saved on this device, never published)
+    roomSecret: string // The room's signing secret (saved on this device, only ever shared in the room link)
     isConnected: boolean
+    device: DeviceInfo // How this device introduces itself to the room (saved on this device)
+    devices: Record<string, RoomDevice> // Devices seen in the room this session, by client id
+    pendingSyncCount: number // Timers with local changes not yet published (e.g. made while offline)
+    changedTimerIds: string[] // Timers changed (or removed) by an action on this device and not queued for publishing yet
+    quarantine: { // Messages rejected for a missing or wrong signature, or that couldn't be decrypted (not synced)
+      messages: RejectedMessage[] // The most recent ones, newest last
+      total: number // All rejected in this room since the page loaded
+      dismissedTotal: number // total when the warning was last dismissed
+    }
+    clock: ClockStatus // This device's measured offset from the shared time reference
     currentTime: number // For real-time calculations
     lastUpdateFromPubNub: boolean // Track if last update came from PubNub
+    activeTimerId: string // Timer currently shown on this device (not synced)
+    acknowledgedCompletions: Record<string, number> // endTime of the completion silenced per timer on this device
   }
 }
 
+export const DEFAULT_TIMER_ID = 'default'
+
+// Shortest duration a countdown can be set or trimmed to
+export const MIN_DURATION_MS = 1000
+
+// Warn at 5 minutes, 2 minutes and 30 seconds left unless a timer says otherwise
+export const DEFAULT_WARNING_THRESHOLDS_MS = [5 * 60 * 1000, 2 * 60 * 1000, 30 * 1000]
+
+// Homework-friendly default cycle: 4 rounds of 20m work / 5m break, then a 15m long break
+export const DEFAULT_INTERVAL: IntervalState = {
+  workMs: 20 * 60 * 1000,
+  shortBreakMs: 5 * 60 * 1000,
+  longBreakMs: 15 * 60 * 1000,
+  rounds: 4,
+  currentRound: 1,
+  phase: 'work',
+}
+
+// Create a fresh, stopped timer
+export const createTimerState = (id: string, label: string, durationMs: number, now = clockNow(), mode: TimerMode = 'countdown'): TimerState => ({
+  id,
+  label,
+  mode,
+  createdAt: now,
+  durationMs,
+  startTime: null,
+  endTime: null,
+  scheduledStartTime: null,
+  isRunning: false,
+  pausedRemainingMs: undefined,
+  pausedElapsedMs: undefined,
+  laps: [],
+  lastUpdated: now,
+  isComplete: false,
+  isPaused: false,
+  overtimeCapMs: null,
+  overtimeLog: [],
+  warningThresholdsMs: DEFAULT_WARNING_THRESHOLDS_MS,
+  runStartedAt: null,
+})
+
+// Time left on a countdown, prioritizing explicit states over timestamp calculations
+export const getRemainingMs = (timer: TimerState, now = clockNow()) => {
+  if (timer.isRunning && timer.endTime) {
+    // Timer is running - calculate remaining time from end time using real-time
+    return Math.max(0, timer.endTime - now)
+  } else if (timer.pausedRemainingMs !== undefined && timer.pausedRemainingMs !== null) {
+    // Timer was paused - use the stored paused remaining time
+    return timer.pausedRemainingMs
+  } else if (timer.isComplete) {
+    // Timer is explicitly marked as complete - show 0 remaining time
+    return 0
+  }
+  // Timer not started, reset, or in any other state - use full duration
+  return timer.durationMs
+}
+
+// Remaining seconds as shown on the dial, with ceiling logic
+// 60000ms -> 60s (1:00), 59999ms -> 60s (1:00), 1000ms -> 1s (0:01), 999ms -> 1s (0:01)
+export const getRemainingSeconds = (remainingMs: number) =>
+  remainingMs <= 0 ? 0 : Math.max(1, Math.ceil(remainingMs / 1000))
+
+// How long a finished countdown has run past zero (capped if the timer has a cap)
+export const getOvertimeMs = (timer: TimerState, now = clockNow()) => {
+  if (!timer.isComplete || !timer.endTime) return 0
+
+  const overtimeMs = Math.max(0, now - timer.endTime)
+  return timer.overtimeCapMs !== null ? Math.min(overtimeMs, timer.overtimeCapMs) : overtimeMs
+}
+
+// Length of a given phase of an interval cycle
+export const getIntervalPhaseMs = (interval: IntervalState, phase: IntervalPhase = interval.phase) =>
+  phase === 'work' ? interval.workMs : phase === 'shortBreak' ? interval.shortBreakMs : interval.longBreakMs
+
+// The warning a timer is currently showing: the newest undismissed one from its running countdown
+export const getActiveWarning = (warnings: AppState['warnings'], timer: TimerState) => {
+  if (!timer.isRunning || timer.mode === 'stopwatch' || timer.runStartedAt === null) return undefined
+
+  const event = [...warnings.events].reverse().find((event) => event.timerId === timer.id && event.runStartedAt === timer.runStartedAt)
+  return event && !event.dismissed ? event : undefined
+}
+
+// Whether someone on this device has already dealt with a finished timer's alarm
+export const isCompletionAcknowledged = (ui: AppState['ui'], timer: TimerState) =>
+  timer.endTime !== null && ui.acknowledgedCompletions[timer.id] === timer.endTime
+
+// Devices made kid's displays that dropped out of the room while a timer there is running (unknown while we're
+// offline ourselves). New devices waiting for a controller to record their key don't count
+export const getOfflineDisplays = (ui: AppState['ui'], timers: AppState['timers'], roles: RolesState) =>
+  ui.isConnected && Object.values(timers).some((timer) => timer.isRunning)
+    ? Object.values(ui.devices).filter((device) => roles.assignments[device.deviceId] === 'display' && !device.isOnline)
+    : []
+
+// Timers in display order (oldest first, id as a tie-breaker so every device agrees)
+export const getSortedTimers = (timers: AppState['timers']) =>
+  Object.values(timers).sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id))
+
+// Opening a room link saves its secret and key, so pick the room before reading them
+const initialRoomId = getInitialRoomId()
+
 const initialState: AppState = {
-  timer: {
-    durationMs: 5 * 60 * 1000, // 5 minutes default
-    startTime: null,
-    endTime: null,
-    isRunning: false,
-    pausedRemainingMs: undefined,
-    lastUpdated: Date.now(),
-    isComplete: false,
-    isPaused: false,
+  timers: {
+    // Every device starts with the same default timer so a fresh room syncs out of the box
+    [DEFAULT_TIMER_ID]: createTimerState(DEFAULT_TIMER_ID, 'Timer', 5 * 60 * 1000, 0), // 5 minutes default
+  },
+  roles: EMPTY_ROLES, // Every device is a controller until one is made a display
+  undo: {
+    past: [],
+    future: [],
+    notice: null,
+  },
+  warnings: {
+    fired: {},
+    events: [],
   },
   ui: {
+    roomId: initialRoomId,
+    roomKey: getRoomKey(initialRoomId),
+    roomSecret: getRoomSecret(initialRoomId),
     isConnected: false,
-    currentTime: Date.now(),
+    device: loadDeviceInfo(),
+    devices: {},
+    pendingSyncCount: 0,
+    changedTimerIds: [],
+    quarantine: { messages: [], total: 0, dismissedTotal: 0 },
+    clock: { source: 'device', offsetMs: 0, roundTripMs: null, measuredAt: null },
+    currentTime: clockNow(),
     lastUpdateFromPubNub: false,
+    activeTimerId: DEFAULT_TIMER_ID,
+    acknowledgedCompletions: {},
   }
 }
 
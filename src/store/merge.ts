@@ -0,0 +1,55 @@
+// Deterministic conflict resolution for published timer states.
+// Every state carries the publishing device's id and a Lamport counter, so concurrent edits
+// resolve the same way on every device no matter whose wall clock is ahead or what arrives first
+
+// The parts of a published state the merge rule looks at
+export interface VersionedState {
+  id: string
+  lastUpdated: number
+  counter?: number // Lamport counter (missing on messages from older clients)
+  deviceId?: string // Device that published the state
+  [key: string]: any
+}
+
+// A Lamport clock: the highest counter published or seen so far
+export const createLamportClock = () => {
+  let counter = 0
+
+  return {
+    // Counter for a state about to be published - later than anything seen so far
+    next: () => ++counter,
+    // Move the counter past a state published elsewhere
+    observe: (state: VersionedState) => {
+      counter = Math.max(counter, state.counter ?? 0)
+    }
+  }
+}
+
+// This device's clock
+const deviceClock = createLamportClock()
+
+export const nextCounter = deviceClock.next
+
+export const observeCounter = deviceClock.observe
+
+// Total order of two states of the same timer: Lamport counter, then wall clock (only decides
+// between older clients' messages), then device id, then the content itself as a last resort
+export const compareStates = (a: VersionedState, b: VersionedState) => {
+  const counterDiff = (a.counter ?? 0) - (b.counter ?? 0)
+  if (counterDiff !== 0) return counterDiff
+
+  const timeDiff = a.lastUpdated - b.lastUpdated
+  if (timeDiff !== 0) return timeDiff
+
+  const deviceA = a.deviceId ?? ''
+  const deviceB = b.deviceId ?? ''
+  if (deviceA !== deviceB) return deviceA < deviceB ? -1 : 1
+
+  const contentA = JSON.stringify(a)
+  const contentB = JSON.stringify(b)
+  return contentA === contentB ? 0 : contentA < contentB ? -1 : 1
+}
+
+// Whether a state should replace the one we already know for that timer (if any)
+export const isNewerState = (state: VersionedState, current: VersionedState | undefined) =>
+  !current || compareStates(state, current) > 0
@@ -0,0 +1,66 @@
+import { compareStates } from './merge'
+import type { VersionedState } from './merge'
+
+// Timer states changed on this device that haven't reached PubNub yet.
+// The queue lives in localStorage so changes made offline survive a reload
+
+// A published timer state (or a tombstone for a removed timer)
+export interface QueuedState extends VersionedState {
+  deleted?: boolean
+}
+
+// One queue per channel, so switching channels never sends changes to the wrong room
+const storageKey = (channel: string) => `outbound-queue:${channel}`
+
+export const loadQueue = (channel: string): QueuedState[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(channel)) ?? '[]')
+    return Array.isArray(saved) ? saved.filter((state) => state && typeof state.id === 'string') : []
+  } catch {
+    // Start over if the saved queue is unreadable
+    return []
+  }
+}
+
+export const saveQueue = (channel: string, queue: QueuedState[]) => {
+  if (queue.length === 0) {
+    localStorage.removeItem(storageKey(channel))
+  } else {
+    localStorage.setItem(storageKey(channel), JSON.stringify(queue))
+  }
+}
+
+// Only the newest state of a timer matters, so it replaces anything already queued for that timer
+export const enqueueState = (queue: QueuedState[], state: QueuedState) => [
+  ...queue.filter((queued) => queued.id !== state.id),
+  state
+]
+
+// Drop a state once it's published (a newer state queued for the same timer meanwhile stays)
+export const removeState = (queue: QueuedState[], state: QueuedState) =>
+  queue.filter((queued) => queued.id !== state.id || compareStates(queued, state) !== 0)
+
+// Merge the newest remote state per timer with the queue. A queued change wins unless the remote
+// change is newer by the merge rule (see merge.ts). Remote states for timers with nothing queued
+// are applied when shouldApply says so. Returns the states to apply locally and the queue left to flush
+export const reconcileQueue = (
+  queue: QueuedState[],
+  remoteStates: QueuedState[],
+  shouldApply: (remote: QueuedState) => boolean
+) => {
+  const toApply: QueuedState[] = []
+  let remaining = queue
+
+  remoteStates.forEach((remote) => {
+    const queued = queue.find((state) => state.id === remote.id)
+    if (!queued) {
+      if (shouldApply(remote)) toApply.push(remote)
+    } else if (compareStates(remote, queued) > 0) {
+      console.log('🔀 Remote change is newer than the unsynced local one:', remote.id)
+      toApply.push(remote)
+      remaining = removeState(remaining, queued)
+    }
+  })
+
+  return { toApply, queue: remaining }
+}
@@ -0,0 +1,195 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import * as preact from 'preact'
+import { Provider } from 'redux-zero/preact'
+import { bindActions } from 'redux-zero/utils'
+import { signDeviceState } from '../security/device-keys'
+import { createRoomSecret, importSigningKey, signState } from '../security/signing'
+import { createMemoryHub, createMemoryTransport } from '../sync/memory-transport'
+import type { MemoryHub } from '../sync/memory-transport'
+import { getRoomChannel } from './rooms'
+
+const ROOM_ID = 'merge-test-room'
+
+// A device in the room: its own store, actions and sync integration, as main.tsx puts them together, talking to the
+// others through an in-memory hub. Each gets fresh modules (device id and key, Lamport clock, store), since on a
+// real device all of them are per browser, and a clock that's off by clockSkewMs
+const createClient = async (hub: MemoryHub, deviceId: string, clockSkewMs = 0) => {
+  vi.resetModules()
+  localStorage.setItem('device-id', deviceId)
+  localStorage.removeItem('device-key-pair')
+  Object.keys(localStorage)
+    .filter((key) => key.startsWith('outbound-queue:'))
+    .forEach((key) => localStorage.removeItem(key))
+  vi.stubEnv('VITE_TIME_SOURCE', 'local')
+  vi.stubEnv('VITE_LOCAL_CLOCK_SKEW_MS', String(clockSkewMs))
+  // The in-memory backend, on the hub shared with the other clients rather than one of its own
+  vi.doMock('../sync', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../sync')>(),
+    createTransport: () => createMemoryTransport(hub, deviceId)
+  }))
+
+  const { DEVICE_KEY_PAIR } = await import('../config/config')
+  const { default: store } = await import('./index')
+  const { default: actions } = await import('./actions')
+  const { PubNubIntegrationProvider } = await import('./pubnub-integration')
+
+  const container = document.createElement('div')
+  preact.render(preact.h(Provider, { store, children: preact.h(PubNubIntegrationProvider, { children: null }) }), container)
+
+  return {
+    deviceId,
+    keyPair: DEVICE_KEY_PAIR,
+    store,
+    actions: bindActions({ ...actions(store) }, store),
+    unmount: () => preact.render(null, container)
+  }
+}
+
+type Client = Awaited<ReturnType<typeof createClient>>
+
+// What every device in the room has to agree on, per timer (each works out for itself when a timer is done)
+const getTimers = (client: Client) => Object.fromEntries(Object.values(client.store.getState().timers)
+  .map(({ id, label, durationMs, startTime, endTime }) => [id, { label, durationMs, startTime, endTime }]))
+
+// Wait until every message on its way has arrived and been applied
+const expectConverged = (clients: Client[]) => vi.waitFor(() => {
+  clients.forEach((client) => expect(getTimers(client)).toEqual(getTimers(clients[0])))
+  clients.forEach((client) => expect(client.store.getState().ui.pendingSyncCount).toBe(0))
+}, { timeout: 3000, interval: 20 })
+
+// Give the message queue and effects a moment, without waiting for everything to arrive
+const pause = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Small deterministic random numbers, so a failing seed can be replayed
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0
+  return seed / 2 ** 32
+}
+
+describe('syncing a room', () => {
+  let clients: Client[] = []
+
+  const join = async (hub: MemoryHub, deviceId: string, clockSkewMs = 0) => {
+    const client = await createClient(hub, deviceId, clockSkewMs)
+    clients.push(client)
+    // Joined once the room's history is loaded and the device has heard from the transport
+    await vi.waitFor(() => expect(client.store.getState().ui.isConnected).toBe(true))
+    await pause(20)
+    return client
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    localStorage.clear()
+    window.location.hash = `#/room/${ROOM_ID}?secret=${createRoomSecret()}`
+  })
+
+  afterEach(() => {
+    clients.forEach((client) => client.unmount())
+    clients = []
+    vi.doUnmock('../sync')
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it.each([1, 42, 1234])('converges after interleaved concurrent edits from several clients (seed %i)', async (seed) => {
+    const random = createRandom(seed)
+    const hub = createMemoryHub()
+    // Clocks that disagree by minutes, as on real devices
+    const room = [
+      await join(hub, 'device-a'),
+      await join(hub, 'device-b', 5 * 60 * 1000),
+      await join(hub, 'device-c', -3 * 60 * 1000)
+    ]
+
+    for (let step = 0; step < 40; step++) {
+      const client = room[Math.floor(random() * room.length)]
+      const timerIds = Object.keys(client.store.getState().timers)
+      const id = timerIds[Math.floor(random() * timerIds.length)]
+      const roll = random()
+      if (roll < 0.15) client.actions.addTimer(`Timer ${step}`)
+      else if (roll < 0.25) client.actions.removeTimer(id)
+      else if (roll < 0.5) client.actions.renameTimer(id, `Label ${step}`)
+      else if (roll < 0.7) client.actions.setDuration(id, Math.ceil(random() * 60) * 60 * 1000)
+      else if (roll < 0.85) client.actions.startTimer(id)
+      else client.actions.pauseTimer(id)
+
+      // Most edits happen before the others have heard of the last ones
+      if (random() < 0.3) await pause(random() * 10)
+    }
+
+    await expectConverged(room)
+
+    // A device joining afterwards ends up in the same place from history alone
+    const lateJoiner = await join(hub, 'device-d')
+    await expectConverged([...room, lateJoiner])
+  }, 15000)
+
+  it('lets an edit made after seeing another one win, whatever the wall clocks say', async () => {
+    const hub = createMemoryHub()
+    const fastClock = await join(hub, 'device-a', 60 * 60 * 1000)
+    const slowClock = await join(hub, 'device-b', -60 * 60 * 1000)
+
+    fastClock.actions.renameTimer('default', 'Homework')
+    await vi.waitFor(() => expect(slowClock.store.getState().timers.default.label).toBe('Homework'))
+    slowClock.actions.renameTimer('default', 'Bedtime')
+    await expectConverged([fastClock, slowClock])
+
+    expect(fastClock.store.getState().timers.default.label).toBe('Bedtime')
+  })
+
+  it('resolves edits made at the same moment the same way on every client', async () => {
+    const hub = createMemoryHub()
+    const room = [await join(hub, 'device-a'), await join(hub, 'device-b'), await join(hub, 'device-c')]
+
+    // Nobody has seen anybody else's edit - all three carry the same counter
+    room.forEach((client, index) => client.actions.renameTimer('default', `Edit ${index}`))
+
+    await expectConverged(room)
+  })
+
+  it("never lets a display's inflated counter win or move the clock, live or from history", async () => {
+    const hub = createMemoryHub()
+    const parent = await join(hub, 'device-parent')
+    const tablet = await join(hub, 'device-tablet')
+    await vi.waitFor(() => expect(Object.values(parent.store.getState().ui.devices)
+      .some((device) => device.deviceId === tablet.deviceId && device.deviceKey !== null)).toBe(true))
+    parent.actions.setDeviceRole(tablet.deviceId, 'display')
+    await vi.waitFor(() => expect(tablet.store.getState().roles.assignments[tablet.deviceId]).toBe('display'))
+    parent.actions.renameTimer('default', 'Bedtime')
+    await vi.waitFor(() => expect(tablet.store.getState().timers.default.label).toBe('Bedtime'))
+
+    // A modified display signs a state properly - room secret and its own device key - with a huge counter
+    const channel = getRoomChannel(ROOM_ID)
+    const signingKey = await importSigningKey(tablet.store.getState().ui.roomSecret, ROOM_ID)
+    const forged = await signDeviceState({
+      ...parent.store.getState().timers.default,
+      label: 'No bedtime',
+      deviceId: tablet.deviceId,
+      counter: Number.MAX_SAFE_INTEGER - 1,
+      lastUpdated: Date.now()
+    }, tablet.keyPair)
+    await createMemoryTransport(hub, tablet.deviceId).publish(channel, await signState(forged, signingKey))
+    await pause(20)
+
+    expect(parent.store.getState().timers.default.label).toBe('Bedtime')
+
+    // A device loading the room afterwards still finds the parent's state, and once it's made a controller its
+    // changes count
+    const lateJoiner = await join(hub, 'device-late')
+    await vi.waitFor(() => expect(lateJoiner.store.getState().timers.default.label).toBe('Bedtime'))
+    await vi.waitFor(() => expect(Object.values(parent.store.getState().ui.devices)
+      .some((device) => device.deviceId === lateJoiner.deviceId && device.deviceKey !== null)).toBe(true))
+    parent.actions.setDeviceRole(lateJoiner.deviceId, 'controller')
+    await vi.waitFor(() => expect(lateJoiner.store.getState().roles.keys[lateJoiner.deviceId]).toBe(lateJoiner.keyPair.publicKey))
+    lateJoiner.actions.renameTimer('default', 'Lights out')
+    await vi.waitFor(() => expect(parent.store.getState().timers.default.label).toBe('Lights out'))
+
+    // Neither the parent nor the device that loaded the room afterwards counted on from the forged counter
+    const counters = hub.channels[channel].history
+      .filter((message) => message.deviceId !== tablet.deviceId)
+      .map((message) => message.counter)
+    expect(Math.max(...counters)).toBeLessThan(100)
+  })
+})
@@ -1,135 +1,580 @@
 import { createContext } from 'preact'
-import { useContext, useEffect, useRef } from 'preact/hooks'
+import { useContext, useEffect, useLayoutEffect, useRef } from 'preact/hooks'
 import { connect } from 'redux-zero/preact'
-import PubNub from 'pubnub'
-import { PUBNUB_CONFIG, TIMER_CHANNEL, validatePubNubConfig } from '../config/config'
+import { CLOCK_CONFIG, DEVICE_ID, DEVICE_KEY, DEVICE_KEY_PAIR } from '../config/config'
+import { createTransport } from '../sync'
+import type { PresenceClient, SyncTransport, SyncTransportListener } from '../sync'
 import actions from './actions'
-import type { AppState } from './index'
+import { clockNow, createLocalTimeSource, measureClockOffset } from './clock'
+import type { ClockStatus } from './clock'
+import { saveDeviceInfo, toPresenceState } from './devices'
+import { getStatesToRepublish, HISTORY_CHECK_INTERVAL_MS, HISTORY_COUNT } from './history-window'
+import { compareStates, isNewerState, nextCounter, observeCounter } from './merge'
+import { enqueueState, loadQueue, reconcileQueue, removeState, saveQueue } from './outbound-queue'
+import type { QueuedState } from './outbound-queue'
+import { canDeviceControl, ROLES_STATE_ID, toRolesState } from './roles'
+import type { RolesState } from './roles'
+import { getRoomChannel } from './rooms'
+import { signDeviceState, verifyDeviceState } from '../security/device-keys'
+import { toCanonicalJson } from '../security/encoding'
+import { decryptState, encryptState, importRoomKey, isEncryptedMessage, isEncryptionAvailable } from '../security/encryption'
+import { hasWebCrypto, importSigningKey, signState, verifyState } from '../security/signing'
+import type { SigningKey } from '../security/signing'
+import type { AppState, RejectedMessage, TimerState } from './index'
 
 interface PubNubIntegrationContextType {
-  pubnub: PubNub | null
+  transport: SyncTransport | null
 }
 
-const PubNubIntegrationContext = createContext<PubNubIntegrationContextType>({ pubnub: null })
+const PubNubIntegrationContext = createContext<PubNubIntegrationContextType>({ transport: null })
 
-// Component that handles PubNub integration with Redux Zero
+// How long to wait before trying a failed publish again
+const PUBLISH_RETRY_MS = 5000
+
+// Shape of a single timer as published (computed states are left out)
+const toPublishedState = (timer: TimerState) => ({
+  id: timer.id,
+  label: timer.label,
+  mode: timer.mode,
+  createdAt: timer.createdAt,
+  durationMs: timer.durationMs,
+  startTime: timer.startTime,
+  endTime: timer.endTime,
+  scheduledStartTime: timer.scheduledStartTime,
+  isRunning: timer.isRunning,
+  pausedRemainingMs: timer.pausedRemainingMs ?? null,
+  pausedElapsedMs: timer.pausedElapsedMs ?? null,
+  laps: timer.laps,
+  lastUpdated: timer.lastUpdated,
+  routine: timer.routine
+    ? {
+        name: timer.routine.name,
+        currentStepIndex: timer.routine.currentStepIndex,
+        steps: timer.routine.steps.map((step) => ({ ...step }))
+      }
+    : null,
+  interval: timer.interval ? { ...timer.interval } : null,
+  overtimeCapMs: timer.overtimeCapMs,
+  overtimeLog: timer.overtimeLog.map((record) => ({ ...record })),
+  warningThresholdsMs: timer.warningThresholdsMs,
+  runStartedAt: timer.runStartedAt
+})
+
+// Check whether a timer differs from the last state we published (or received) for it
+const hasTimerChanged = (timer: TimerState, lastPublished: any) =>
+  !lastPublished ||
+  lastPublished.label !== timer.label ||
+  lastPublished.mode !== timer.mode ||
+  lastPublished.durationMs !== timer.durationMs ||
+  lastPublished.startTime !== timer.startTime ||
+  lastPublished.endTime !== timer.endTime ||
+  (lastPublished.scheduledStartTime ?? null) !== timer.scheduledStartTime ||
+  lastPublished.isRunning !== timer.isRunning ||
+  (lastPublished.pausedRemainingMs ?? undefined) !== timer.pausedRemainingMs ||
+  (lastPublished.pausedElapsedMs ?? undefined) !== timer.pausedElapsedMs ||
+  JSON.stringify(lastPublished.laps ?? []) !== JSON.stringify(timer.laps) ||
+  JSON.stringify(lastPublished.routine ?? null) !== JSON.stringify(toPublishedState(timer).routine) ||
+  JSON.stringify(lastPublished.interval ?? null) !== JSON.stringify(toPublishedState(timer).interval) ||
+  (lastPublished.overtimeCapMs ?? null) !== timer.overtimeCapMs ||
+  JSON.stringify(lastPublished.overtimeLog ?? []) !== JSON.stringify(toPublishedState(timer).overtimeLog) ||
+  JSON.stringify(lastPublished.warningThresholdsMs ?? null) !== JSON.stringify(timer.warningThresholdsMs) ||
+  (lastPublished.runStartedAt ?? null) !== timer.runStartedAt
+
+// Check whether the room's roles differ from the last roles we published (or received)
+const haveRolesChanged = (roles: RolesState, lastPublished: any) =>
+  JSON.stringify(lastPublished?.assignments ?? {}) !== JSON.stringify(roles.assignments) ||
+  JSON.stringify(lastPublished?.keys ?? {}) !== JSON.stringify(roles.keys)
+
+// Component that connects the sync transport (PubNub by default) to Redux Zero
 function PubNubIntegrationComponent({ 
-  timer, 
+  timers, 
+  roles,
   ui, 
   syncTimerState, 
+  syncRoles,
+  clearChangedTimers,
   setConnected,
+  setPendingSyncCount,
+  setClockStatus,
+  quarantineMessage,
+  updatePresence,
   updateCurrentTime,
   children 
 }: {
-  timer: AppState['timer']
+  timers: AppState['timers']
+  roles: AppState['roles']
   ui: AppState['ui']
   syncTimerState: (timerState: any) => void
+  syncRoles: (rolesState: any) => void
+  clearChangedTimers: (timerIds: string[]) => void
   setConnected: (isConnected: boolean) => void
+  setPendingSyncCount: (pendingSyncCount: number) => void
+  setClockStatus: (clock: ClockStatus) => void
+  quarantineMessage: (rejected: RejectedMessage) => void
+  updatePresence: (clients: PresenceClient[]) => void
   updateCurrentTime: (currentTime: number) => void
   children: any
 }) {
-  const pubnubRef = useRef<PubNub | null>(null)
-  const lastPublishedState = useRef<any>(null)
+  const transportRef = useRef<SyncTransport | null>(null)
+  const listenerRef = useRef<SyncTransportListener | null>(null)
+  // Channel of the room this device is in (changes when switching rooms)
+  const channelRef = useRef(getRoomChannel(ui.roomId))
+  // Last known shared state per timer id, whether we published it or received it
+  const lastPublishedState = useRef<Record<string, any>>({})
+  // The message behind each of those states, exactly as published, so it can be published again before it
+  // scrolls out of the history window (see history-window.ts). Missing while a local change is still queued
+  const sharedMessagesRef = useRef<Record<string, object>>({})
   const isInitialized = useRef(false)
   const hasLoadedHistory = useRef(false)
+  // Local changes waiting to be published, oldest first (survives reloads)
+  const queueRef = useRef<QueuedState[]>([])
+  // Queued states currently being published, as "id@deviceId:counter"
+  const inFlight = useRef(new Set<string>())
+  const retryTimeoutRef = useRef<number | null>(null)
+  // True between reconnecting and finishing the history catch-up, so nothing is flushed too early
+  const isReconciling = useRef(false)
+  const isConnectedRef = useRef(ui.isConnected)
+  // Key that signs and checks this room's messages, derived from the room secret (see security/signing.ts)
+  const signingKeyRef = useRef<Promise<SigningKey> | null>(null)
+  // Key that encrypts this room's messages when it has a passphrase (see security/encryption.ts)
+  const encryptionKeyRef = useRef<Promise<CryptoKey> | null>(null)
+  // Rejected messages already quarantined, so reading history again doesn't report them twice
+  const quarantinedRef = useRef(new Set<string>())
+  // Roles to check senders against - updated as soon as new roles are applied, before the next render
+  const rolesRef = useRef(roles)
 
-  // Initialize PubNub
-  useEffect(() => {
-    const validation = validatePubNubConfig()
-    if (validation.usingDemo) {
-      console.log('🔧 PubNub initialized with demo keys')
+  isConnectedRef.current = ui.isConnected
+  rolesRef.current = roles
+
+  // Apply a timer state (or the room's roles) received from another device and remember it as the
+  // shared state (tombstones included, so a late message can't bring a removed timer back).
+  // States from display devices (or not signed with their sender's recorded key) are dropped here as well as
+  // in the store, so they never count as shared
+  const applyRemoteState = (newState: any, message?: object) => {
+    if (!canDeviceControl(rolesRef.current, newState.deviceId, newState.deviceKey)) {
+      console.log('🚫 Ignoring state from display device:', newState.deviceId)
+      return
+    }
+
+    lastPublishedState.current[newState.id] = newState
+    if (message) {
+      sharedMessagesRef.current[newState.id] = message
     } else {
-      console.log('✅ PubNub initialized with custom keys')
-    }
-    
-    pubnubRef.current = new PubNub(PUBNUB_CONFIG)
-    const pubnub = pubnubRef.current
-
-    // Add listener for incoming messages
-    const listener = {
-      message: (event: any) => {
-        console.log('📨 Received PubNub message:', event)
-        if (event.channel === TIMER_CHANNEL) {
-          const newState = event.message
-          console.log('📥 Timer message received:', newState)
-          
-          // Only update if this is a newer state
-          if (!timer || newState.lastUpdated > timer.lastUpdated) {
-            console.log('✅ Updating timer state with newer message')
-            syncTimerState(newState)
-          } else {
-            console.log('⏸️ Ignoring older message')
+      delete sharedMessagesRef.current[newState.id]
+    }
+    if (newState.id === ROLES_STATE_ID) {
+      rolesRef.current = toRolesState(newState)
+      syncRoles(newState)
+    } else {
+      syncTimerState(newState)
+    }
+  }
+
+  // Decrypt a received message if it's encrypted, then check its room and device signatures: a good one comes
+  // back as the plain state, anything unsigned, forged or unreadable is quarantined (once) and comes back as null.
+  // Whether its sender may change the room is up to the roles (see roles.ts)
+  const verifyMessage = async (message: any, source: RejectedMessage['source']) => {
+    const channel = channelRef.current
+    const signingKey = signingKeyRef.current
+    const encryptionKey = encryptionKeyRef.current
+
+    const reject = (reason: RejectedMessage['reason']) => {
+      const messageKey = toCanonicalJson(message)
+      if (channel === channelRef.current && !quarantinedRef.current.has(messageKey)) {
+        console.log(`🚫 Rejecting ${reason} message:`, message)
+        quarantinedRef.current.add(messageKey)
+        quarantineMessage({ stateId: typeof message.id === 'string' ? message.id : null, reason, source, receivedAt: clockNow(), message })
+      }
+      return null
+    }
+
+    // Unencrypted messages are still accepted - devices without the passphrase yet, and history from before it was set
+    let received = message
+    if (isEncryptedMessage(message)) {
+      const key = encryptionKey ? await encryptionKey.catch(() => null) : null
+      if (!key) return reject('no-key')
+      received = await decryptState(message, key)
+      if (!received) return reject('undecryptable')
+    }
+
+    // Only missing before the first room is joined
+    if (!signingKey) return null
+
+    const { check, state } = await verifyState(received, await signingKey)
+    if (check !== 'valid') return reject(check)
+
+    // Older clients don't sign with a device key - their states come back without one
+    const device = await verifyDeviceState(state)
+    return device.check === 'forged' ? reject('forged') : device.state as QueuedState
+  }
+
+  // Replace the outbound queue, saving it and keeping the unsynced indicator up to date
+  const updateQueue = (queue: QueuedState[]) => {
+    if (queue.length !== queueRef.current.length) {
+      setPendingSyncCount(queue.length)
+    }
+    queueRef.current = queue
+    saveQueue(channelRef.current, queue)
+  }
+
+  // Publish everything in the outbound queue; each state leaves the queue once the transport has it
+  const flushQueue = () => {
+    const transport = transportRef.current
+    const signingKey = signingKeyRef.current
+    const encryptionKey = encryptionKeyRef.current
+    if (!transport || !signingKey || !isConnectedRef.current || !isInitialized.current || isReconciling.current) return
+
+    const channel = channelRef.current
+    queueRef.current.forEach((stateToPublish) => {
+      const key = `${stateToPublish.id}@${stateToPublish.deviceId}:${stateToPublish.counter}`
+      if (inFlight.current.has(key)) return
+      inFlight.current.add(key)
+
+      console.log('📤 Publishing timer state:', stateToPublish)
+      signDeviceState(stateToPublish, DEVICE_KEY_PAIR).then((deviceSignedState) => {
+        return signingKey.then((key) => signState(deviceSignedState, key))
+      }).then((signedState): Promise<object> => {
+        // Encrypted rooms never fall back to plaintext - if the key can't be used the state stays queued
+        return encryptionKey ? encryptionKey.then((key) => encryptState(signedState, key)) : Promise.resolve(signedState)
+      }).then((outgoing) => {
+        return transport.publish(channel, outgoing).then(() => outgoing)
+      }).then((outgoing) => {
+        if (channel === channelRef.current) {
+          updateQueue(removeState(queueRef.current, stateToPublish))
+          const shared = lastPublishedState.current[stateToPublish.id]
+          if (shared?.deviceId === stateToPublish.deviceId && shared?.counter === stateToPublish.counter) {
+            sharedMessagesRef.current[stateToPublish.id] = outgoing
           }
+        } else {
+          // Published to a room we've since left - take it out of that room's saved queue
+          saveQueue(channel, removeState(loadQueue(channel), stateToPublish))
         }
-      },
-      status: (statusEvent: any) => {
-        console.log('🔄 PubNub status event:', statusEvent)
-        if (statusEvent.category === 'PNConnectedCategory') {
-          console.log('✅ PubNub connected')
-          setConnected(true)
-        } else if (statusEvent.category === 'PNNetworkDownCategory' || 
-                   statusEvent.category === 'PNNetworkIssuesCategory') {
-          console.log('❌ PubNub disconnected')
-          setConnected(false)
+      }).catch((error) => {
+        console.error('❌ Failed to publish timer state - keeping it queued:', error)
+        if (retryTimeoutRef.current === null) {
+          retryTimeoutRef.current = window.setTimeout(() => {
+            retryTimeoutRef.current = null
+            flushQueue()
+          }, PUBLISH_RETRY_MS)
         }
-      }
-    }
+      }).finally(() => {
+        inFlight.current.delete(key)
+      })
+    })
+  }
 
-    pubnub.addListener(listener)
+  // Publish the room's current states again, unchanged, when they're about to scroll out of the history window
+  // (or already have). The copies keep their author, counter and signatures, so they never win over anything.
+  // Only controllers do this - a display doesn't publish at all
+  const republishOldStates = (history: any[]) => {
+    const transport = transportRef.current
+    const encryptionKey = encryptionKeyRef.current
+    if (!transport || !canDeviceControl(rolesRef.current, DEVICE_ID, DEVICE_KEY)) return
 
-    // Subscribe to the timer channel
-    console.log('🔔 Subscribing to channel:', TIMER_CHANNEL)
-    pubnub.subscribe({
-      channels: [TIMER_CHANNEL]
+    const channel = channelRef.current
+    getStatesToRepublish(sharedMessagesRef.current, history).forEach((id) => {
+      const message = sharedMessagesRef.current[id]
+      console.log('🔁 Publishing the current state again before it leaves the history:', id)
+      // Received before the room had a passphrase - an encrypted room never publishes plaintext
+      const copy: Promise<object> = encryptionKey && !isEncryptedMessage(message)
+        ? encryptionKey.then((key) => encryptState(message as QueuedState, key))
+        : Promise.resolve(message)
+      copy.then((outgoing) => transport.publish(channel, outgoing).then(() => {
+        if (sharedMessagesRef.current[id] === message) {
+          sharedMessagesRef.current[id] = outgoing
+        }
+      })).catch((error) => console.error('❌ Failed to publish state again:', error))
     })
+  }
 
-    // Get current state from history
+  // Read back the newest state of every timer from history and reconcile it with the outbound queue,
+  // then flush whatever local changes are still newest. On first load every remote state is applied
+  // (plus queued changes from before a reload); after a reconnect only states newer than this device's
+  const loadHistory = (transport: SyncTransport, isReconnect: boolean) => {
+    const channel = channelRef.current
+    let history: any[] = []
     console.log('📜 Fetching timer history...')
-    pubnub.history({
-      channel: TIMER_CHANNEL,
-      count: 1
-    }).then((response) => {
-      console.log('📜 History response:', response)
-      if (response.messages && response.messages.length > 0) {
-        const latestState = response.messages[0].entry
-        console.log('📜 Loaded timer state from history:', latestState)
-        syncTimerState(latestState)
-        // Wait a tick to ensure the state has been synced before allowing publish
-        setTimeout(() => {
-          hasLoadedHistory.current = true
-          isInitialized.current = true
-        }, 0)
+    transport.fetchHistory(channel, HISTORY_COUNT).then((messages) => {
+      history = messages
+      // Only correctly signed states count - a forged one mustn't hide the real newest state
+      return Promise.all(messages
+        .filter((entry) => entry && typeof entry.id === 'string')
+        .map((entry) => verifyMessage(entry, 'history').then((state) => state && { state, message: entry })))
+    }).then((verifiedStates) => {
+      const entries = verifiedStates.filter((entry): entry is { state: QueuedState, message: any } => entry !== null)
+
+      // Work out the room's roles first, oldest change to newest, each taken only from a device the roles before it
+      // let change the room. Then only states from devices those roles let change it count - a display's state
+      // with an inflated counter mustn't hide the real newest one, or push this device's Lamport clock ahead
+      let roomRoles = rolesRef.current
+      let lastRoles = lastPublishedState.current[ROLES_STATE_ID]
+      entries
+        .filter(({ state }) => state.id === ROLES_STATE_ID)
+        .sort((a, b) => compareStates(a.state, b.state))
+        .forEach(({ state }) => {
+          if (isNewerState(state, lastRoles) && canDeviceControl(roomRoles, state.deviceId, state.deviceKey)) {
+            roomRoles = toRolesState(state)
+            lastRoles = state
+          }
+        })
+
+      // Keep only the newest message per timer id
+      const latest: Record<string, { state: QueuedState, message: object }> = {}
+      entries.forEach((entry) => {
+        if (!canDeviceControl(roomRoles, entry.state.deviceId, entry.state.deviceKey)) return
+        observeCounter(entry.state)
+        if (isNewerState(entry.state, latest[entry.state.id]?.state)) {
+          latest[entry.state.id] = entry
+        }
+      })
+      return Object.values(latest)
+    }).catch((error) => {
+      console.error('❌ Failed to get timer history:', error)
+      return []
+    }).then((latest) => {
+      // Switched rooms while the history was on its way - the new room loads its own
+      if (channel !== channelRef.current) return
+
+      const remoteStates = latest.map(({ state }) => state)
+      const messagesById = Object.fromEntries(latest.map(({ state, message }) => [state.id, message]))
+
+      const { toApply, queue } = reconcileQueue(queueRef.current, remoteStates, (remote) => {
+        return !isReconnect || isNewerState(remote, lastPublishedState.current[remote.id])
+      })
+      updateQueue(queue)
+
+      // After a reload, changes made offline exist only in the queue
+      const restoredStates = isReconnect ? [] : queue
+      if (toApply.length > 0 || restoredStates.length > 0) {
+        console.log('📜 Loaded timer states from history:', toApply, 'unsynced local changes:', restoredStates)
+        // Roles first, so the timer states are checked against the room's current roles. Removed timers last -
+        // removing the only timer loaded so far would bring back a fresh default one the room doesn't have
+        const applyOrder = (state: QueuedState) => state.id === ROLES_STATE_ID ? 0 : state.deleted ? 2 : 1
+        const ordered = [...toApply].sort((a, b) => applyOrder(a) - applyOrder(b))
+        ordered.forEach((state) => applyRemoteState(state, messagesById[state.id]))
+        restoredStates.forEach((state) => applyRemoteState(state))
       } else {
-        console.log('📜 No timer history found - using initial state')
+        console.log('📜 No newer timer history found')
+      }
+
+      // Wait a tick to ensure the state has been synced before allowing publish
+      setTimeout(() => {
+        if (channel !== channelRef.current) return
         hasLoadedHistory.current = true
         isInitialized.current = true
-      }
-    }).catch((error) => {
-      console.error('❌ Failed to get timer history:', error)
-      hasLoadedHistory.current = true
-      isInitialized.current = true
+        isReconciling.current = false
+        flushQueue()
+        republishOldStates(history)
+      }, 0)
     })
+  }
+
+  // Connect the sync transport chosen in config.ts
+  useEffect(() => {
+    transportRef.current = createTransport()
+    const transport = transportRef.current
+
+    // Line this device's clock up with the shared time reference, now and every so often.
+    // Backends without a time service (tabs on one device) share the device clock anyway
+    const timeSource = CLOCK_CONFIG.source === 'local'
+      ? createLocalTimeSource(CLOCK_CONFIG.localSkewMs)
+      : transport.getTime
+    const syncClock = () => {
+      if (!timeSource) return
+      measureClockOffset(timeSource, CLOCK_CONFIG.source === 'local' ? 'local' : transport.name)
+        .then(setClockStatus)
+        .catch((error) => console.error('❌ Failed to measure clock offset:', error))
+    }
+    syncClock()
+    const clockIntervalId = window.setInterval(syncClock, CLOCK_CONFIG.resyncIntervalMs)
+
+    // Every so often, make sure the room's current states haven't drifted to the end of the history window
+    const historyCheckIntervalId = window.setInterval(() => {
+      if (!isInitialized.current || isReconciling.current || !isConnectedRef.current) return
+      const channel = channelRef.current
+      transport.fetchHistory(channel, HISTORY_COUNT).then((messages) => {
+        if (channel === channelRef.current) republishOldStates(messages)
+      }).catch((error) => console.error('❌ Failed to check timer history:', error))
+    }, HISTORY_CHECK_INTERVAL_MS)
+
+    // Listen for incoming messages and connection changes
+    listenerRef.current = {
+      onMessage: (message) => {
+        console.log('📥 Timer message received:', message)
+
+        // Messages without a timer id come from older clients that only knew one timer
+        if (!message || typeof message.id !== 'string') {
+          console.log('⏸️ Ignoring message without timer id')
+          return
+        }
+
+        const channel = channelRef.current
+        verifyMessage(message, 'live').then((newState) => {
+          // Rejected, or we moved to another room while checking it
+          if (!newState || channel !== channelRef.current) return
+
+          // A display's state doesn't count, so it mustn't move the Lamport clock either
+          if (!canDeviceControl(rolesRef.current, newState.deviceId, newState.deviceKey)) {
+            console.log('🚫 Ignoring state from display device:', newState.deviceId)
+            return
+          }
+
+          // Only update if this state wins over the one we know for that timer (see merge.ts)
+          observeCounter(newState)
+          if (isNewerState(newState, lastPublishedState.current[newState.id])) {
+            console.log('✅ Updating timer state with newer message')
+            applyRemoteState(newState, message)
+          } else {
+            console.log('⏸️ Ignoring older message')
+          }
+        })
+      },
+      onStatus: (status) => {
+        if (status === 'connected') {
+          console.log('✅ Sync connected')
+          setConnected(true)
+        } else if (status === 'reconnected') {
+          console.log('✅ Sync reconnected - catching up from history')
+          isReconciling.current = true
+          setConnected(true)
+          syncClock()
+          // Pick up anything other devices changed while we were offline
+          loadHistory(transport, true)
+        } else {
+          console.log('❌ Sync disconnected')
+          setConnected(false)
+        }
+      },
+      onPresence: (clients) => {
+        console.log('👥 Devices in the room:', clients)
+        updatePresence(clients)
+      }
+    }
+
+    // The browser knows about the network before the transport does - reconnect as soon as it's back
+    const handleOnline = () => {
+      console.log('🌐 Browser is back online - reconnecting')
+      transport.reconnect()
+    }
+    const handleOffline = () => {
+      console.log('🌐 Browser went offline')
+      setConnected(false)
+    }
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
 
     return () => {
-      pubnub.removeListener(listener)
-      pubnub.unsubscribe({
-        channels: [TIMER_CHANNEL]
-      })
+      clearInterval(clockIntervalId)
+      clearInterval(historyCheckIntervalId)
+      if (retryTimeoutRef.current !== null) {
+        clearTimeout(retryTimeoutRef.current)
+        retryTimeoutRef.current = null
+      }
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
     }
   }, [syncTimerState, setConnected])
 
+  // Tell the room who this device is, now and whenever it's renamed
+  useEffect(() => {
+    saveDeviceInfo(ui.device)
+    transportRef.current?.setPresenceState(toPresenceState(ui.device))
+  }, [ui.device])
+
+  // Set up the room's encryption key whenever this device gets or drops one. Within the same room, read the
+  // history again with it - states the other devices encrypted may have been unreadable until now
+  useEffect(() => {
+    if (ui.roomKey) {
+      encryptionKeyRef.current = isEncryptionAvailable()
+        ? importRoomKey(ui.roomKey)
+        : Promise.reject(new Error('WebCrypto is unavailable (page not served over HTTPS)'))
+      encryptionKeyRef.current.catch((error) => console.error('❌ Failed to set up encryption - nothing will be published:', error))
+    } else {
+      encryptionKeyRef.current = null
+    }
+
+    const transport = transportRef.current
+    if (transport && isInitialized.current && channelRef.current === getRoomChannel(ui.roomId)) {
+      console.log('🔐 Encryption key changed - reading history again')
+      isReconciling.current = true
+      loadHistory(transport, true)
+    }
+  }, [ui.roomKey])
+
+  // Join the room's channel, and move over to the new one whenever the room changes - no reload needed.
+  // A new secret for the room starts it over too, so history is checked again with the new key
+  useEffect(() => {
+    const transport = transportRef.current
+    const listener = listenerRef.current
+    if (!transport || !listener) return
+
+    // Start over for the new room: nothing published or loaded yet, and its own outbound queue
+    const channel = getRoomChannel(ui.roomId)
+    channelRef.current = channel
+    if (!hasWebCrypto()) {
+      console.log('🔏 WebCrypto is unavailable (page not served over HTTPS) - signing messages with @noble/hashes')
+    }
+    signingKeyRef.current = importSigningKey(ui.roomSecret, ui.roomId)
+    signingKeyRef.current.catch((error) => console.error('❌ Failed to set up message signing:', error))
+    quarantinedRef.current = new Set()
+    lastPublishedState.current = {}
+    sharedMessagesRef.current = {}
+    rolesRef.current = roles
+    isInitialized.current = false
+    hasLoadedHistory.current = false
+    isReconciling.current = false
+    queueRef.current = loadQueue(channel)
+    setPendingSyncCount(queueRef.current.length)
+    // Changes queued before a reload still count as seen
+    queueRef.current.forEach(observeCounter)
+
+    // Subscribe to the room's channel
+    console.log('🔔 Subscribing to channel:', channel)
+    transport.subscribe(channel, listener)
+
+    // Get current state of every timer from history
+    loadHistory(transport, false)
+
+    return () => {
+      console.log('🔕 Leaving channel:', channel)
+      transport.unsubscribe()
+    }
+  }, [ui.roomId, ui.roomSecret])
+
   // Update current time when the display is supposed to change next
   useEffect(() => {
     let timeoutId: number | null = null
 
     const scheduleNextUpdate = () => {
-      const now = Date.now()
+      const now = clockNow()
       updateCurrentTime(now)
 
-      // Calculate when the next display change should occur
+      // Calculate when the next display change should occur across all running timers
       let nextUpdateMs = 1000 // Default to 1 second if we can't determine better timing
 
-      if (timer.isRunning && timer.endTime) {
+      Object.values(timers).forEach((timer) => {
+        if (!timer.isRunning && timer.scheduledStartTime !== null) {
+          // Wake up right when a scheduled timer should start
+          nextUpdateMs = Math.min(nextUpdateMs, Math.max(0, timer.scheduledStartTime - now))
+          return
+        }
+
+        if (timer.isRunning && timer.mode === 'stopwatch' && timer.startTime) {
+          // Stopwatch display changes when elapsed time crosses the next whole second
+          const elapsedMs = Math.max(0, now - timer.startTime)
+          nextUpdateMs = Math.min(nextUpdateMs, Math.max(100, 1000 - (elapsedMs % 1000)))
+          return
+        }
+
+        if (timer.isComplete && timer.endTime) {
+          // Overtime display changes when it crosses the next whole second past endTime
+          const overtimeMs = Math.max(0, now - timer.endTime)
+          nextUpdateMs = Math.min(nextUpdateMs, Math.max(100, 1000 - (overtimeMs % 1000)))
+          return
+        }
+
+        if (!timer.isRunning || !timer.endTime) return
+
         const remainingMs = Math.max(0, timer.endTime - now)
         
         if (remainingMs > 0) {
@@ -137,15 +582,15 @@ function PubNubIntegrationComponent({
           // For example: if remainingMs is 65432ms (1:05.432), we want to update when it becomes 65000ms (1:05.000)
           const remainingSeconds = Math.ceil(remainingMs / 1000)
           const msUntilNextSecond = remainingMs - ((remainingSeconds - 1) * 1000)
-          nextUpdateMs = Math.max(100, msUntilNextSecond) // Minimum 100ms to avoid excessive updates
+          nextUpdateMs = Math.min(nextUpdateMs, Math.max(100, msUntilNextSecond)) // Minimum 100ms to avoid excessive updates
         } else {
           // Timer should complete, update immediately
           nextUpdateMs = 0
         }
-      }
+      })
 
       // Schedule the next update
-      timeoutId = setTimeout(() => {
+      timeoutId = window.setTimeout(() => {
         scheduleNextUpdate()
       }, nextUpdateMs)
     }
@@ -158,11 +603,15 @@ function PubNubIntegrationComponent({
         clearTimeout(timeoutId)
       }
     }
-  }, [updateCurrentTime, timer.isRunning, timer.endTime])
+  }, [updateCurrentTime, timers])
 
-  // Publish state changes to PubNub
-  useEffect(() => {
-    if (!pubnubRef.current || !ui.isConnected || !isInitialized.current || !hasLoadedHistory.current) return
+  // Queue state changes for the other devices, one message per changed timer, and send them if we can.
+  // Only timers an action on this device changed are published: states every device works out for itself
+  // (a step advancing, a timer completing) and timers this device never loaded stay unpublished.
+  // Changes made offline wait in the queue until the connection returns. A layout effect, so it runs with the
+  // store as rendered - a plain effect waits for the next paint, and an action in between would be missed
+  useLayoutEffect(() => {
+    if (!isInitialized.current || !hasLoadedHistory.current) return
 
     // Don't publish if this update came from PubNub to prevent loops
     if (ui.lastUpdateFromPubNub) {
@@ -170,41 +619,58 @@ function PubNubIntegrationComponent({
       return
     }
 
-    // Check if state has changed
-    const stateChanged = !lastPublishedState.current ||
-      lastPublishedState.current.durationMs !== timer.durationMs ||
-      lastPublishedState.current.startTime !== timer.startTime ||
-      lastPublishedState.current.endTime !== timer.endTime ||
-      lastPublishedState.current.isRunning !== timer.isRunning ||
-      lastPublishedState.current.pausedRemainingMs !== timer.pausedRemainingMs
-
-    if (stateChanged) {
-      const stateToPublish = {
-        durationMs: timer.durationMs,
-        startTime: timer.startTime,
-        endTime: timer.endTime,
-        isRunning: timer.isRunning,
-        pausedRemainingMs: timer.pausedRemainingMs ?? null,
-        lastUpdated: timer.lastUpdated
+    // A display only watches - the others would reject its changes anyway
+    if (!canDeviceControl(roles, DEVICE_ID, DEVICE_KEY)) {
+      console.log('⏸️ Skipping publish - this device is a display')
+      return
+    }
+
+    let queue = queueRef.current
+    const enqueue = (state: QueuedState) => {
+      // Stamp it with this device, its key and a Lamport counter later than anything seen so far
+      const stateToPublish: QueuedState = { ...state, deviceId: DEVICE_ID, deviceKey: DEVICE_KEY, counter: nextCounter() }
+
+      // Record it right away so a re-render doesn't queue the same state twice
+      lastPublishedState.current[stateToPublish.id] = stateToPublish
+      delete sharedMessagesRef.current[stateToPublish.id]
+      queue = enqueueState(queue, stateToPublish)
+    }
+
+    // Queue the timers changed here, and tombstones for the ones removed here
+    const changedTimerIds = ui.changedTimerIds
+    changedTimerIds.forEach((id) => {
+      const timer = timers[id]
+      if (timer) {
+        if (hasTimerChanged(timer, lastPublishedState.current[id])) {
+          enqueue(toPublishedState(timer))
+        }
+      } else if (!lastPublishedState.current[id]?.deleted) {
+        enqueue({ id, deleted: true, lastUpdated: clockNow() })
       }
+    })
 
-      console.log('📤 Publishing timer state to PubNub:', stateToPublish)
+    // Queue the room's roles when they were changed on this device
+    if (haveRolesChanged(roles, lastPublishedState.current[ROLES_STATE_ID])) {
+      enqueue({ id: ROLES_STATE_ID, assignments: roles.assignments, keys: roles.keys, lastUpdated: roles.lastUpdated })
+    }
 
-      pubnubRef.current.publish({
-        channel: TIMER_CHANNEL,
-        message: stateToPublish,
-        storeInHistory: true
-      }).then((response) => {
-        console.log('✅ Published successfully:', response)
-        lastPublishedState.current = stateToPublish
-      }).catch((error) => {
-        console.error('❌ Failed to publish timer state:', error)
-      })
+    if (changedTimerIds.length > 0) {
+      clearChangedTimers(changedTimerIds)
     }
-  }, [timer.durationMs, timer.startTime, timer.endTime, timer.isRunning, timer.pausedRemainingMs, ui.isConnected, ui.lastUpdateFromPubNub])
+
+    if (queue !== queueRef.current) {
+      updateQueue(queue)
+      flushQueue()
+    }
+  }, [ui.changedTimerIds, roles, ui.lastUpdateFromPubNub])
+
+  // Send anything queued as soon as we're connected
+  useEffect(() => {
+    flushQueue()
+  }, [ui.isConnected])
 
   return (
-    <PubNubIntegrationContext.Provider value={{ pubnub: pubnubRef.current }}>
+    <PubNubIntegrationContext.Provider value={{ transport: transportRef.current }}>
       {children}
     </PubNubIntegrationContext.Provider>
   )
@@ -212,7 +678,7 @@ function PubNubIntegrationComponent({
 
 // Connected component
 const ConnectedPubNubIntegration = connect(
-  ({ timer, ui }: AppState) => ({ timer, ui }),
+  ({ timers, roles, ui }: AppState) => ({ timers, roles, ui }),
   actions
 )(PubNubIntegrationComponent)
 
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { createDeviceKeyPair, signDeviceState, verifyDeviceState } from '../security/device-keys'
+import { canDeviceControl, EMPTY_ROLES, getDeviceRole, toRolesState, withDeviceKeys } from './roles'
+
+const controller = createDeviceKeyPair()
+const display = createDeviceKeyPair()
+
+// A room where a parent made the tablet a display, recording both devices' keys
+const LOCKED_ROLES = withDeviceKeys(
+  { assignments: { 'device-tablet': 'display' }, keys: {}, lastUpdated: 1 },
+  { 'device-parent': controller.publicKey, 'device-tablet': display.publicKey }
+)
+
+const STATE = { id: 'default', isRunning: true, counter: 7 }
+
+// What a receiver makes of a message: its device signature first, then the roles
+const acceptedFrom = async (message: Record<string, any>) => {
+  const { check, state } = await verifyDeviceState(message)
+  return check !== 'forged' && canDeviceControl(LOCKED_ROLES, state.deviceId, state.deviceKey)
+}
+
+describe('roles', () => {
+  it('lets every device control a room without displays', () => {
+    expect(canDeviceControl(EMPTY_ROLES, 'device-new', undefined)).toBe(true)
+    expect(canDeviceControl(EMPTY_ROLES, undefined, undefined)).toBe(true)
+  })
+
+  it('accepts a controller signing with its recorded key', async () => {
+    expect(await acceptedFrom(await signDeviceState({ ...STATE, deviceId: 'device-parent' }, controller))).toBe(true)
+  })
+
+  it("rejects a display stamping a controller's device id, with its own key or the controller's", async () => {
+    const withOwnKey = await signDeviceState({ ...STATE, deviceId: 'device-parent' }, display)
+    expect(await acceptedFrom(withOwnKey)).toBe(false)
+    expect(await acceptedFrom({ ...withOwnKey, deviceKey: controller.publicKey })).toBe(false)
+    expect(await acceptedFrom({ ...STATE, deviceId: 'device-parent' })).toBe(false)
+  })
+
+  it('keeps new devices view only until a controller records their key', async () => {
+    const newcomer = createDeviceKeyPair()
+    expect(getDeviceRole(LOCKED_ROLES, 'device-new')).toBe('display')
+    expect(await acceptedFrom(await signDeviceState({ ...STATE, deviceId: 'device-new' }, newcomer))).toBe(false)
+
+    const promoted = withDeviceKeys(LOCKED_ROLES, { 'device-new': newcomer.publicKey })
+    expect(getDeviceRole(promoted, 'device-new')).toBe('controller')
+    expect(canDeviceControl(promoted, 'device-new', newcomer.publicKey)).toBe(true)
+  })
+
+  it('never replaces a recorded key', () => {
+    const roles = withDeviceKeys(LOCKED_ROLES, { 'device-parent': display.publicKey })
+    expect(roles.keys['device-parent']).toBe(controller.publicKey)
+    expect(canDeviceControl(roles, 'device-parent', display.publicKey)).toBe(false)
+  })
+
+  it('reads published roles, dropping anything malformed', () => {
+    expect(toRolesState({ assignments: { a: 'display', b: 'admin' }, keys: { a: 'key', b: 3 }, lastUpdated: 5 }))
+      .toEqual({ assignments: { a: 'display' }, keys: { a: 'key' }, lastUpdated: 5 })
+  })
+})
@@ -0,0 +1,58 @@
+// Device roles: controllers run the timers, displays only show them (e.g. the kid's tablet).
+// The room's roles travel as one more published state, next to the timers, and every device
+// refuses changes - timers or roles - that come from a display.
+// Once a room has a display, device ids alone aren't trusted: a controller records each device's public
+// key with the roles (see security/device-keys.ts), and changes only count when they're signed with the key
+// recorded for their sender. Devices the room hasn't recorded a key for yet are displays until a controller
+// makes them controllers
+
+export type DeviceRole = 'controller' | 'display'
+
+// Id of the published roles state (never a timer id - those start with "timer-" or are "default")
+export const ROLES_STATE_ID = 'room-roles'
+
+export interface RolesState {
+  assignments: Record<string, DeviceRole> // By device id; devices not listed are controllers
+  keys: Record<string, string> // Public device key by device id, recorded by a controller
+  lastUpdated: number // When a controller last changed them
+}
+
+export const EMPTY_ROLES: RolesState = { assignments: {}, keys: {}, lastUpdated: 0 }
+
+export const hasDisplays = (roles: RolesState) => Object.values(roles.assignments).includes('display')
+
+// A device that joined after the room got a display and that no controller has made a controller yet
+export const isAwaitingKey = (roles: RolesState, deviceId: string) =>
+  hasDisplays(roles) && !roles.assignments[deviceId] && !roles.keys[deviceId]
+
+export const getDeviceRole = (roles: RolesState, deviceId: string): DeviceRole =>
+  roles.assignments[deviceId] ?? (isAwaitingKey(roles, deviceId) ? 'display' : 'controller')
+
+// Whether changes from this device, signed with this device key, count. States from clients too old to
+// stamp a device id or sign with a device key can't be checked, so they're only accepted while the room
+// has no displays at all
+export const canDeviceControl = (roles: RolesState, deviceId: string | undefined, deviceKey: string | undefined) =>
+  hasDisplays(roles)
+    ? deviceId !== undefined && deviceKey !== undefined &&
+      getDeviceRole(roles, deviceId) === 'controller' && roles.keys[deviceId] === deviceKey
+    : true
+
+// Helper function to record device keys with the roles. A recorded key is never replaced - otherwise a
+// display could take over a controller's id by announcing its own key for it
+export const withDeviceKeys = (roles: RolesState, deviceKeys: Record<string, string>): RolesState => {
+  const keys = { ...deviceKeys, ...roles.keys }
+  return Object.keys(keys).length === Object.keys(roles.keys).length ? roles : { ...roles, keys }
+}
+
+// Roles as received, ignoring anything that isn't a known role or a key
+export const toRolesState = (published: any): RolesState => {
+  const assignments: Record<string, DeviceRole> = {}
+  Object.entries(published?.assignments ?? {}).forEach(([deviceId, role]) => {
+    if (role === 'controller' || role === 'display') assignments[deviceId] = role
+  })
+  const keys: Record<string, string> = {}
+  Object.entries(published?.keys ?? {}).forEach(([deviceId, deviceKey]) => {
+    if (typeof deviceKey === 'string') keys[deviceId] = deviceKey
+  })
+  return { assignments, keys, lastUpdated: published?.lastUpdated ?? 0 }
+}
@@ -0,0 +1,39 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createRoomSecret } from '../security/signing'
+import { getRoomSecret, hasOtherRoomSecret, openRoomLink, replaceRoomSecret } from './rooms'
+
+const ROOM_ID = 'q3Vx0sPbR2m1k8LwYcT7ag'
+
+describe('room secrets', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('takes the secret from the first link to a room', () => {
+    const secret = createRoomSecret()
+    openRoomLink({ roomId: ROOM_ID, secret, key: null })
+
+    expect(getRoomSecret(ROOM_ID)).toBe(secret)
+  })
+
+  it('keeps the secret it has when a link brings another', () => {
+    const known = getRoomSecret(ROOM_ID)
+    const link = { roomId: ROOM_ID, secret: createRoomSecret(), key: null }
+
+    openRoomLink(link)
+
+    expect(getRoomSecret(ROOM_ID)).toBe(known)
+    expect(hasOtherRoomSecret(link)).toBe(true)
+    expect(hasOtherRoomSecret({ ...link, secret: known })).toBe(false)
+    expect(hasOtherRoomSecret({ ...link, secret: null })).toBe(false)
+  })
+
+  it('only replaces the secret when asked to', () => {
+    getRoomSecret(ROOM_ID)
+    const link = { roomId: ROOM_ID, secret: createRoomSecret(), key: null }
+
+    replaceRoomSecret(link.roomId, link.secret)
+
+    expect(getRoomSecret(ROOM_ID)).toBe(link.secret)
+    expect(hasOtherRoomSecret(link)).toBe(false)
+  })
+})
@@ -0,0 +1,208 @@
+import { TIMER_CHANNEL } from '../config/config'
+import { toBase64Url } from '../security/encoding'
+import { isValidRoomKey } from '../security/encryption'
+import { createRoomSecret, isValidRoomSecret } from '../security/signing'
+
+// Rooms keep families apart: each room is its own sync channel, named in the URL
+// (e.g. /kid-timer/#/room/abc123?secret=...) so a link is all another device needs to join.
+// The room's secret signs its messages (see security/signing.ts) and, being in the fragment, never reaches a server.
+// Rooms with a passphrase also carry their encryption key there (&key=..., see security/encryption.ts)
+
+export interface RecentRoom {
+  id: string
+  name: string // Local nickname, e.g. "Home" (not synced)
+  lastUsedAt: number // When this device last opened the room
+}
+
+// A room as named in a link
+export interface RoomLink {
+  roomId: string
+  secret: string | null // Missing from links shared before rooms had secrets
+  key: string | null // Encryption key, only in links to rooms with a passphrase
+}
+
+const RECENT_ROOMS_KEY = 'recent-rooms'
+
+// Secrets of every room this device has been in, by room id (kept even when a room leaves the recent list)
+const ROOM_SECRETS_KEY = 'room-secrets'
+
+// Encryption keys of the rooms this device has a passphrase for, by room id
+const ROOM_KEYS_KEY = 'room-keys'
+
+// How many rooms the switcher remembers
+const MAX_RECENT_ROOMS = 8
+
+// Random bytes in a new room id - 128 bits, so nobody stumbles into someone else's room
+const ROOM_ID_BYTES = 16
+
+// Letters, digits, - and _ (URL- and channel-safe)
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+export const isValidRoomId = (roomId: string) => ROOM_ID_PATTERN.test(roomId)
+
+// Unguessable id as base64url, e.g. "q3Vx0sPbR2m1k8LwYcT7ag"
+export const createRoomId = () => toBase64Url(crypto.getRandomValues(new Uint8Array(ROOM_ID_BYTES)))
+
+const loadRoomSecrets = (): Record<string, string> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ROOM_SECRETS_KEY) ?? '{}')
+    return saved && typeof saved === 'object' ? saved : {}
+  } catch {
+    return {}
+  }
+}
+
+// Remember the secret a room link came with, unless this device already has one for the room - any link
+// could otherwise swap it for one its sender chose. Replacing it takes the user's say-so (see replaceRoomSecret)
+export const rememberRoomSecret = (roomId: string, secret: string) => {
+  if (!isValidRoomSecret(secret) || loadRoomSecrets()[roomId]) return
+  console.log('🔑 Saving secret for room', roomId)
+  localStorage.setItem(ROOM_SECRETS_KEY, JSON.stringify({ ...loadRoomSecrets(), [roomId]: secret }))
+}
+
+// Swap the room's secret for a link's, once the user has confirmed it (e.g. this device had a wrong one)
+export const replaceRoomSecret = (roomId: string, secret: string) => {
+  if (!isValidRoomSecret(secret) || loadRoomSecrets()[roomId] === secret) return
+  console.log('🔑 Replacing secret for room', roomId)
+  localStorage.setItem(ROOM_SECRETS_KEY, JSON.stringify({ ...loadRoomSecrets(), [roomId]: secret }))
+}
+
+// Whether a link carries a different secret from the one this device kept for its room
+export const hasOtherRoomSecret = (link: RoomLink) => {
+  const saved = loadRoomSecrets()[link.roomId]
+  return link.secret !== null && saved !== undefined && saved !== link.secret
+}
+
+// The room's secret, created on first use - for a new room (or one opened from an old link without a
+// secret, whose other devices then need this device's link to accept its messages)
+export const getRoomSecret = (roomId: string) => {
+  const saved = loadRoomSecrets()[roomId]
+  if (saved && isValidRoomSecret(saved)) return saved
+
+  const secret = createRoomSecret()
+  rememberRoomSecret(roomId, secret)
+  return secret
+}
+
+const loadRoomKeys = (): Record<string, string> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ROOM_KEYS_KEY) ?? '{}')
+    return saved && typeof saved === 'object' ? saved : {}
+  } catch {
+    return {}
+  }
+}
+
+// Remember a room's encryption key (from a link or a passphrase), replacing any older one
+export const rememberRoomKey = (roomId: string, key: string) => {
+  if (!isValidRoomKey(key) || loadRoomKeys()[roomId] === key) return
+  console.log('🔐 Saving encryption key for room', roomId)
+  localStorage.setItem(ROOM_KEYS_KEY, JSON.stringify({ ...loadRoomKeys(), [roomId]: key }))
+}
+
+// Stop encrypting on this device (other devices keep their key until they do the same)
+export const forgetRoomKey = (roomId: string) => {
+  const { [roomId]: _removed, ...keys } = loadRoomKeys()
+  localStorage.setItem(ROOM_KEYS_KEY, JSON.stringify(keys))
+}
+
+// The room's encryption key, or null if this device doesn't encrypt in it
+export const getRoomKey = (roomId: string) => {
+  const saved = loadRoomKeys()[roomId]
+  return saved && isValidRoomKey(saved) ? saved : null
+}
+
+export const getRoomHash = (roomId: string) => {
+  const key = getRoomKey(roomId)
+  return `#/room/${roomId}?secret=${getRoomSecret(roomId)}${key ? `&key=${key}` : ''}`
+}
+
+// Full link to a room on this deployment, secret (and encryption key) included
+export const getRoomUrl = (roomId: string) =>
+  `${window.location.origin}${window.location.pathname}${getRoomHash(roomId)}`
+
+// Room named in a URL hash, or null if there isn't a valid one
+export const getRoomLinkFromHash = (hash: string): RoomLink | null => {
+  const match = hash.match(/^#\/room\/([^/?]+)\/?(?:\?(.*))?$/)
+  const roomId = match ? decodeURIComponent(match[1]) : null
+  if (!roomId || !isValidRoomId(roomId)) return null
+
+  const params = new URLSearchParams(match?.[2] ?? '')
+  const secret = params.get('secret')
+  const key = params.get('key')
+  return {
+    roomId,
+    secret: secret && isValidRoomSecret(secret) ? secret : null,
+    key: key && isValidRoomKey(key) ? key : null
+  }
+}
+
+export const getRoomIdFromHash = (hash: string) => getRoomLinkFromHash(hash)?.roomId ?? null
+
+// Accept a pasted room link or a bare room id
+export const parseRoomInput = (text: string): RoomLink | null => {
+  const trimmed = text.trim()
+  if (isValidRoomId(trimmed)) return { roomId: trimmed, secret: null, key: null }
+
+  const hashIndex = trimmed.indexOf('#')
+  return hashIndex === -1 ? null : getRoomLinkFromHash(trimmed.slice(hashIndex))
+}
+
+// Save what a link says about its room (keeping a secret we already have) and return the room to join
+export const openRoomLink = (link: RoomLink) => {
+  if (link.secret) rememberRoomSecret(link.roomId, link.secret)
+  if (link.key) rememberRoomKey(link.roomId, link.key)
+  return link.roomId
+}
+
+// Sync channel for a room (VITE_PUBNUB_CHANNEL is the prefix)
+export const getRoomChannel = (roomId: string) => `${TIMER_CHANNEL}-${roomId}`
+
+// Short form for labels, e.g. "q3Vx0s"
+export const getShortRoomId = (roomId: string) => roomId.slice(0, 6)
+
+export const loadRecentRooms = (): RecentRoom[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_ROOMS_KEY) ?? '[]')
+    return Array.isArray(saved)
+      ? saved.filter((room) => room && typeof room.id === 'string' && isValidRoomId(room.id))
+      : []
+  } catch {
+    // Start over if the saved list is unreadable
+    return []
+  }
+}
+
+const saveRecentRooms = (rooms: RecentRoom[]) => {
+  localStorage.setItem(RECENT_ROOMS_KEY, JSON.stringify(rooms))
+}
+
+// Move a room to the top of the recent list, adding it (with a default name) if it's new
+export const rememberRoom = (roomId: string, name?: string) => {
+  const rooms = loadRecentRooms()
+  const existing = rooms.find((room) => room.id === roomId)
+  const room: RecentRoom = {
+    id: roomId,
+    name: name?.trim() || existing?.name || `Room ${getShortRoomId(roomId)}`,
+    lastUsedAt: Date.now(),
+  }
+  saveRecentRooms([room, ...rooms.filter((other) => other.id !== roomId)].slice(0, MAX_RECENT_ROOMS))
+}
+
+export const renameRoom = (roomId: string, name: string) => {
+  if (!name.trim()) return
+  saveRecentRooms(loadRecentRooms().map((room) => room.id === roomId ? { ...room, name: name.trim() } : room))
+}
+
+export const forgetRoom = (roomId: string) => {
+  saveRecentRooms(loadRecentRooms().filter((room) => room.id !== roomId))
+}
+
+export const getRoomName = (roomId: string) =>
+  loadRecentRooms().find((room) => room.id === roomId)?.name ?? `Room ${getShortRoomId(roomId)}`
+
+// Room to open on page load: the one in the URL, else the last one used here, else a brand new one
+export const getInitialRoomId = () => {
+  const link = getRoomLinkFromHash(window.location.hash)
+  return link ? openRoomLink(link) : loadRecentRooms()[0]?.id ?? createRoomId()
+}
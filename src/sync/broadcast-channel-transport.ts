@@ -0,0 +1,136 @@
+import type { PresenceState, SyncTransport } from './transport'
+
+// BroadcastChannel backend: syncs tabs and installed app windows on this device, with no account
+// or setup. History is kept in localStorage, which every tab on the device shares
+
+// Same number of messages PubNub history would hand back
+const HISTORY_LIMIT = 100
+
+// Tabs announce themselves this often, and are dropped from presence when not heard from for longer
+const HEARTBEAT_MS = 10 * 1000
+const PRESENCE_TIMEOUT_MS = 30 * 1000
+
+type Envelope =
+  | { type: 'message', message: any }
+  | { type: 'presence', clientId: string, action: 'here' | 'leave', state?: PresenceState }
+
+const historyKey = (channel: string) => `broadcast-history:${channel}`
+
+const readHistory = (channel: string): any[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(historyKey(channel)) ?? '[]')
+    return Array.isArray(saved) ? saved : []
+  } catch {
+    // Start over if the saved history is unreadable
+    return []
+  }
+}
+
+export const createBroadcastChannelTransport = (clientId: string): SyncTransport => {
+  let subscription: {
+    channel: string
+    broadcastChannel: BroadcastChannel
+    heartbeatId: number
+    handlePageHide: () => void
+    announce: () => void
+    reportPresence: () => void
+  } | null = null
+  // Other tabs on the channel, when we last heard from them and what they said about themselves
+  const lastSeen: Record<string, number> = {}
+  const states: Record<string, PresenceState> = {}
+  let presenceState: PresenceState = null
+
+  return {
+    name: 'broadcast',
+
+    subscribe(channel, listener) {
+      const broadcastChannel = new BroadcastChannel(`kid-timer:${channel}`)
+      const post = (envelope: Envelope) => broadcastChannel.postMessage(envelope)
+      const announce = () => post({ type: 'presence', clientId, action: 'here', state: presenceState })
+
+      const reportPresence = () => {
+        const now = Date.now()
+        Object.keys(lastSeen).forEach((id) => {
+          if (now - lastSeen[id] > PRESENCE_TIMEOUT_MS) {
+            delete lastSeen[id]
+            delete states[id]
+          }
+        })
+        listener.onPresence([
+          { clientId, state: presenceState },
+          ...Object.keys(lastSeen).map((id) => ({ clientId: id, state: states[id] ?? null }))
+        ])
+      }
+
+      broadcastChannel.onmessage = (event: MessageEvent<Envelope>) => {
+        const envelope = event.data
+        if (envelope.type === 'message') {
+          listener.onMessage(envelope.message)
+        } else if (envelope.type === 'presence') {
+          // Other tabs of this same device share our client id - they're not another device
+          if (envelope.clientId === clientId) return
+
+          if (envelope.action === 'leave') {
+            delete lastSeen[envelope.clientId]
+            delete states[envelope.clientId]
+          } else {
+            // Answer a newcomer right away rather than at our next heartbeat
+            if (!(envelope.clientId in lastSeen)) announce()
+            lastSeen[envelope.clientId] = Date.now()
+            states[envelope.clientId] = envelope.state ?? null
+          }
+          reportPresence()
+        }
+      }
+
+      // Say goodbye when the tab closes, so it leaves presence straight away
+      const handlePageHide = () => post({ type: 'presence', clientId, action: 'leave' })
+      window.addEventListener('pagehide', handlePageHide)
+
+      const heartbeatId = window.setInterval(() => {
+        announce()
+        reportPresence()
+      }, HEARTBEAT_MS)
+
+      subscription = { channel, broadcastChannel, heartbeatId, handlePageHide, announce, reportPresence }
+      announce()
+      listener.onStatus('connected') // Tabs on one device can always reach each other
+      reportPresence()
+    },
+
+    unsubscribe() {
+      if (!subscription) return
+      subscription.handlePageHide()
+      window.removeEventListener('pagehide', subscription.handlePageHide)
+      clearInterval(subscription.heartbeatId)
+      subscription.broadcastChannel.close()
+      subscription = null
+      Object.keys(lastSeen).forEach((id) => {
+        delete lastSeen[id]
+        delete states[id]
+      })
+    },
+
+    async publish(channel, message) {
+      localStorage.setItem(historyKey(channel), JSON.stringify([...readHistory(channel), message].slice(-HISTORY_LIMIT)))
+      // A BroadcastChannel never delivers to its own sender, so other tabs only
+      if (subscription?.channel === channel) {
+        subscription.broadcastChannel.postMessage({ type: 'message', message } satisfies Envelope)
+      }
+    },
+
+    async fetchHistory(channel, count) {
+      return readHistory(channel).slice(-count)
+    },
+
+    reconnect() {
+      // Nothing to do - there's no network in between
+    },
+
+    setPresenceState(state) {
+      presenceState = state
+      subscription?.announce()
+      subscription?.reportPresence()
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import { PUBNUB_CONFIG, SYNC_CONFIG, validatePubNubConfig } from '../config/config'
+import { createBroadcastChannelTransport } from './broadcast-channel-transport'
+import { createMemoryHub, createMemoryTransport } from './memory-transport'
+import { createPubNubTransport } from './pubnub-transport'
+import { createRelayTransport } from './relay-transport'
+import type { SyncTransport } from './transport'
+
+export type { ConnectionStatus, PresenceClient, PresenceState, SyncTransport, SyncTransportListener } from './transport'
+
+// Create the transport chosen in config.ts. Every backend identifies this device by
+// PUBNUB_CONFIG.userId, which is what other devices see in presence
+export const createTransport = (): SyncTransport => {
+  console.log('🔌 Sync transport:', SYNC_CONFIG.transport)
+
+  switch (SYNC_CONFIG.transport) {
+    case 'relay':
+      return createRelayTransport(SYNC_CONFIG.relayUrl, PUBNUB_CONFIG.userId)
+    case 'broadcast':
+      return createBroadcastChannelTransport(PUBNUB_CONFIG.userId)
+    case 'memory':
+      return createMemoryTransport(createMemoryHub(), PUBNUB_CONFIG.userId)
+    case 'pubnub': {
+      const validation = validatePubNubConfig()
+      if (validation.usingDemo) {
+        console.log('🔧 PubNub initialized with demo keys')
+      } else {
+        console.log('✅ PubNub initialized with custom keys')
+      }
+      return createPubNubTransport(PUBNUB_CONFIG)
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { PresenceState, SyncTransport, SyncTransportListener } from './transport'
+
+// In-memory backend: every transport created from the same hub shares its channels.
+// Meant for tests (several clients in one process) and for running with no sync at all
+
+interface MemoryChannel {
+  history: any[]
+  subscribers: Map<string, SyncTransportListener> // By client id
+  states: Map<string, PresenceState> // Presence state by client id
+}
+
+export interface MemoryHub {
+  channels: Record<string, MemoryChannel>
+}
+
+export const createMemoryHub = (): MemoryHub => ({ channels: {} })
+
+const getChannel = (hub: MemoryHub, channel: string) => {
+  if (!hub.channels[channel]) {
+    hub.channels[channel] = { history: [], subscribers: new Map(), states: new Map() }
+  }
+  return hub.channels[channel]
+}
+
+const reportPresence = (memoryChannel: MemoryChannel) => {
+  const clients = [...memoryChannel.subscribers.keys()].map((clientId) => ({
+    clientId,
+    state: memoryChannel.states.get(clientId) ?? null
+  }))
+  memoryChannel.subscribers.forEach((listener) => listener.onPresence(clients))
+}
+
+export const createMemoryTransport = (hub: MemoryHub, clientId: string): SyncTransport => {
+  let subscribedChannel: string | null = null
+  let presenceState: PresenceState = null
+
+  return {
+    name: 'memory',
+
+    subscribe(channel, listener) {
+      subscribedChannel = channel
+      const memoryChannel = getChannel(hub, channel)
+      memoryChannel.subscribers.set(clientId, listener)
+      memoryChannel.states.set(clientId, presenceState)
+      listener.onStatus('connected')
+      reportPresence(memoryChannel)
+    },
+
+    unsubscribe() {
+      if (subscribedChannel === null) return
+      const memoryChannel = getChannel(hub, subscribedChannel)
+      memoryChannel.subscribers.delete(clientId)
+      memoryChannel.states.delete(clientId)
+      subscribedChannel = null
+      reportPresence(memoryChannel)
+    },
+
+    async publish(channel, message) {
+      const memoryChannel = getChannel(hub, channel)
+      memoryChannel.history.push(message)
+
+      // Delivered to everyone else later, as over a real network, and as a copy
+      memoryChannel.subscribers.forEach((listener, id) => {
+        if (id !== clientId) {
+          queueMicrotask(() => listener.onMessage(structuredClone(message)))
+        }
+      })
+    },
+
+    async fetchHistory(channel, count) {
+      return structuredClone(getChannel(hub, channel).history.slice(-count))
+    },
+
+    reconnect() {
+      // Nothing to do - there's no network in between
+    },
+
+    setPresenceState(state) {
+      presenceState = state
+      if (subscribedChannel === null) return
+      const memoryChannel = getChannel(hub, subscribedChannel)
+      memoryChannel.states.set(clientId, state)
+      reportPresence(memoryChannel)
+    },
+  }
+}
@@ -0,0 +1,141 @@
+import PubNub from 'pubnub'
+import type { PresenceState, SyncTransport, SyncTransportListener } from './transport'
+
+// PubNub backend: pub/sub, message history and presence from a PubNub keyset
+export const createPubNubTransport = (config: PubNub.PubNubConfiguration): SyncTransport => {
+  const pubnub = new PubNub(config)
+  let subscription: { channel: string, pubnubListener: PubNub.Listener } | null = null
+
+  // Who's on the channel and their presence state, kept up to date from presence events
+  const occupants = new Map<string, PresenceState>()
+  let presenceState: PresenceState = null
+
+  const reportPresence = (listener: SyncTransportListener) => {
+    listener.onPresence([...occupants].map(([clientId, state]) => ({ clientId, state })))
+  }
+
+  // Ask who's here (and what they've said about themselves) - presence events only cover changes
+  const refreshOccupants = (channel: string, listener: SyncTransportListener) => {
+    pubnub.hereNow({ channels: [channel], includeState: true }).then((response) => {
+      response.channels[channel]?.occupants.forEach(({ uuid, state }) => {
+        // Our own state may not have reached the presence service yet
+        const isSelf = uuid === pubnub.getUserId()
+        occupants.set(uuid, isSelf ? presenceState : (state as PresenceState) ?? occupants.get(uuid) ?? null)
+      })
+      reportPresence(listener)
+    }).catch((error) => {
+      console.error('❌ Failed to get presence:', error)
+    })
+  }
+
+  const handlePresence = (event: any, channel: string, listener: SyncTransportListener) => {
+    if (event.action === 'join' || event.action === 'state-change') {
+      occupants.set(event.uuid, event.state ?? occupants.get(event.uuid) ?? null)
+      // A join doesn't always carry the newcomer's state
+      if (!event.state) refreshOccupants(channel, listener)
+    } else if (event.action === 'leave' || event.action === 'timeout') {
+      occupants.delete(event.uuid)
+    } else if (event.action === 'interval') {
+      // Busy channels report changes in batches, without states
+      event.join?.forEach((uuid: string) => occupants.set(uuid, occupants.get(uuid) ?? null))
+      event.leave?.forEach((uuid: string) => occupants.delete(uuid))
+      event.timeout?.forEach((uuid: string) => occupants.delete(uuid))
+      if (event.join?.length) refreshOccupants(channel, listener)
+    }
+    reportPresence(listener)
+  }
+
+  const sendPresenceState = (channel: string) => {
+    if (!presenceState) return
+    pubnub.setState({ channels: [channel], state: presenceState }).catch((error) => {
+      console.error('❌ Failed to set presence state:', error)
+    })
+  }
+
+  return {
+    name: 'pubnub',
+
+    subscribe(channel, listener) {
+      const pubnubListener: PubNub.Listener = {
+        message: (event) => {
+          console.log('📨 Received PubNub message:', event)
+          if (event.channel === channel) {
+            listener.onMessage(event.message)
+          }
+        },
+        presence: (event) => {
+          if (event.channel === channel) {
+            handlePresence(event, channel, listener)
+          }
+        },
+        status: (statusEvent) => {
+          console.log('🔄 PubNub status event:', statusEvent)
+          if (statusEvent.category === 'PNConnectedCategory') {
+            listener.onStatus('connected')
+          } else if (statusEvent.category === 'PNReconnectedCategory' ||
+                     statusEvent.category === 'PNNetworkUpCategory') {
+            listener.onStatus('reconnected')
+          } else if (statusEvent.category === 'PNNetworkDownCategory' ||
+                     statusEvent.category === 'PNNetworkIssuesCategory') {
+            listener.onStatus('disconnected')
+          }
+        }
+      }
+
+      subscription = { channel, pubnubListener }
+      pubnub.addListener(pubnubListener)
+      pubnub.subscribe({
+        channels: [channel],
+        withPresence: true
+      })
+
+      sendPresenceState(channel)
+
+      // Presence events only cover changes - ask who's already here
+      occupants.set(pubnub.getUserId(), presenceState)
+      refreshOccupants(channel, listener)
+    },
+
+    unsubscribe() {
+      if (!subscription) return
+      pubnub.removeListener(subscription.pubnubListener)
+      pubnub.unsubscribe({
+        channels: [subscription.channel]
+      })
+      subscription = null
+      occupants.clear()
+    },
+
+    async publish(channel, message) {
+      const response = await pubnub.publish({
+        channel,
+        message,
+        storeInHistory: true
+      })
+      console.log('✅ Published successfully:', response)
+    },
+
+    async fetchHistory(channel, count) {
+      const response = await pubnub.history({ channel, count })
+      console.log('📜 History response:', response)
+      return response.messages.map(({ entry }) => entry)
+    },
+
+    reconnect() {
+      pubnub.reconnect()
+    },
+
+    setPresenceState(state) {
+      presenceState = state
+      if (subscription) {
+        occupants.set(pubnub.getUserId(), state)
+        sendPresenceState(subscription.channel)
+      }
+    },
+
+    // PubNub's time endpoint returns a timetoken in units of 100 nanoseconds
+    async getTime() {
+      return Number((await pubnub.time()).timetoken) / 10000
+    },
+  }
+}
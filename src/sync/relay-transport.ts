@@ -0,0 +1,168 @@
+import type { PresenceState, SyncTransport, SyncTransportListener } from './transport'
+
+// Self-hosted relay backend (server/relay.js): pub/sub, latest timer states, presence and time
+// over one WebSocket, so a family can sync on the home network without a PubNub account
+
+// Requests wait this long for the socket to open and for an answer
+const REQUEST_TIMEOUT_MS = 10 * 1000
+
+// Reconnect delay after the connection drops, doubling up to the maximum
+const RECONNECT_MIN_MS = 1000
+const RECONNECT_MAX_MS = 30 * 1000
+
+interface PendingRequest {
+  resolve: (response: any) => void
+  reject: (error: Error) => void
+  timeoutId: number
+}
+
+export const createRelayTransport = (url: string, clientId: string): SyncTransport => {
+  let socket: WebSocket | null = null
+  let subscription: { channel: string, listener: SyncTransportListener } | null = null
+  let presenceState: PresenceState = null
+  let hasConnected = false
+  let reconnectDelayMs = RECONNECT_MIN_MS
+  let reconnectTimeoutId: number | null = null
+  let nextRequestId = 1
+  const pending = new Map<number, PendingRequest>()
+  // Callbacks waiting for the socket to open
+  let openWaiters: (() => void)[] = []
+
+  const send = (data: any) => socket?.send(JSON.stringify(data))
+
+  const scheduleReconnect = () => {
+    if (!subscription || reconnectTimeoutId !== null) return
+    reconnectTimeoutId = window.setTimeout(() => {
+      reconnectTimeoutId = null
+      open()
+    }, reconnectDelayMs)
+    reconnectDelayMs = Math.min(reconnectDelayMs * 2, RECONNECT_MAX_MS)
+  }
+
+  const open = () => {
+    if (socket && socket.readyState <= WebSocket.OPEN) return // Already open or opening
+
+    console.log('🔌 Connecting to relay:', url)
+    const ws = new WebSocket(url)
+    socket = ws
+
+    ws.onopen = () => {
+      reconnectDelayMs = RECONNECT_MIN_MS
+      if (subscription) {
+        send({ type: 'subscribe', channel: subscription.channel, clientId, state: presenceState })
+        subscription.listener.onStatus(hasConnected ? 'reconnected' : 'connected')
+      }
+      hasConnected = true
+      openWaiters.splice(0).forEach((callback) => callback())
+    }
+
+    ws.onmessage = (event) => {
+      const data = JSON.parse(event.data)
+      const isSubscribedChannel = subscription !== null && data.channel === subscription.channel
+      if (data.type === 'message') {
+        if (isSubscribedChannel) subscription!.listener.onMessage(data.message)
+      } else if (data.type === 'presence') {
+        if (isSubscribedChannel) subscription!.listener.onPresence(data.clients)
+      } else if (pending.has(data.requestId)) {
+        const request = pending.get(data.requestId)!
+        pending.delete(data.requestId)
+        clearTimeout(request.timeoutId)
+        if (data.type === 'error') {
+          request.reject(new Error(data.error))
+        } else {
+          request.resolve(data)
+        }
+      }
+    }
+
+    ws.onclose = () => {
+      if (socket !== ws) return
+      console.log('❌ Relay connection closed')
+      socket = null
+      pending.forEach((request) => {
+        clearTimeout(request.timeoutId)
+        request.reject(new Error('Relay connection closed'))
+      })
+      pending.clear()
+      subscription?.listener.onStatus('disconnected')
+      scheduleReconnect()
+    }
+  }
+
+  // Wait for the socket to open (the first history fetch starts before it has), then ask the relay
+  const requestFromRelay = (request: Record<string, any>) => new Promise<any>((resolve, reject) => {
+    const requestId = nextRequestId++
+    const sendRequest = () => {
+      pending.set(requestId, { resolve, reject, timeoutId })
+      send({ ...request, requestId })
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      pending.delete(requestId)
+      openWaiters = openWaiters.filter((callback) => callback !== sendRequest)
+      reject(new Error('Relay request timed out'))
+    }, REQUEST_TIMEOUT_MS)
+
+    if (socket?.readyState === WebSocket.OPEN) {
+      sendRequest()
+    } else {
+      openWaiters.push(sendRequest)
+      open()
+    }
+  })
+
+  return {
+    name: 'relay',
+
+    subscribe(channel, listener) {
+      subscription = { channel, listener }
+      if (socket?.readyState === WebSocket.OPEN) {
+        send({ type: 'subscribe', channel, clientId, state: presenceState })
+        listener.onStatus('connected')
+      } else {
+        open()
+      }
+    },
+
+    unsubscribe() {
+      if (socket?.readyState === WebSocket.OPEN) {
+        send({ type: 'unsubscribe' })
+      }
+      subscription = null
+      if (reconnectTimeoutId !== null) {
+        clearTimeout(reconnectTimeoutId)
+        reconnectTimeoutId = null
+      }
+    },
+
+    async publish(channel, message) {
+      await requestFromRelay({ type: 'publish', channel, message })
+    },
+
+    async fetchHistory(channel, count) {
+      const response = await requestFromRelay({ type: 'history', channel, count })
+      console.log('📜 History response:', response)
+      return response.messages
+    },
+
+    reconnect() {
+      if (reconnectTimeoutId !== null) {
+        clearTimeout(reconnectTimeoutId)
+        reconnectTimeoutId = null
+      }
+      reconnectDelayMs = RECONNECT_MIN_MS
+      open()
+    },
+
+    setPresenceState(state) {
+      presenceState = state
+      if (subscription && socket?.readyState === WebSocket.OPEN) {
+        send({ type: 'state', state })
+      }
+    },
+
+    async getTime() {
+      return (await requestFromRelay({ type: 'time' })).time
+    },
+  }
+}
@@ -0,0 +1,32 @@
+// Pluggable sync transport: how timer states travel between the devices in a room.
+// The integration component only talks to this interface, so backends can be swapped in config.ts
+
+export type ConnectionStatus =
+  | 'connected' // First connection
+  | 'reconnected' // Back after a drop - messages may have been missed, so history should be re-read
+  | 'disconnected'
+
+// What a client tells the rest of the room about itself, e.g. its device name (null until it says)
+export type PresenceState = Record<string, any> | null
+
+export interface PresenceClient {
+  clientId: string
+  state: PresenceState
+}
+
+export interface SyncTransportListener {
+  onMessage: (message: any) => void // A state published on the channel (may include this device's own)
+  onStatus: (status: ConnectionStatus) => void
+  onPresence: (clients: PresenceClient[]) => void // Everyone currently on the channel, this client included
+}
+
+export interface SyncTransport {
+  name: string // Shown in sync diagnostics, e.g. 'pubnub'
+  subscribe: (channel: string, listener: SyncTransportListener) => void
+  unsubscribe: () => void
+  publish: (channel: string, message: any) => Promise<void>
+  fetchHistory: (channel: string, count: number) => Promise<any[]> // Latest messages, oldest first
+  reconnect: () => void // Called when the browser reports the network is back
+  setPresenceState: (state: Record<string, any>) => void // Shared with the channel now and on every later subscribe
+  getTime?: () => Promise<number> // Reference time (epoch ms) for clock correction, if the backend has one
+}
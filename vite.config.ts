@@ -1,8 +1,70 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import preact from '@preact/preset-vite'
+import { readdirSync } from 'node:fs'
+import { createRequire } from 'node:module'
+
+const require = createRequire(import.meta.url)
+
+// Files the service worker should not precache
+const PRECACHE_EXCLUDE = ['sw.js', 'precache-manifest.js', 'vite.svg']
+
+// Small, stable hash so each build's cache gets its own name
+const hashString = (value: string) => {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0
+  }
+  return hash.toString(36)
+}
+
+// Writes precache-manifest.js next to sw.js, listing every built asset and public file
+// (paths are relative to the service worker, so they work under the /kid-timer/ base)
+const precacheManifest = (): Plugin => {
+  let publicDir = ''
+
+  return {
+    name: 'kid-timer-precache-manifest',
+    enforce: 'post',
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    // Nothing is precached in development - the service worker still loads
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (!req.url?.endsWith('/precache-manifest.js')) return next()
+        res.setHeader('Content-Type', 'text/javascript')
+        res.end("self.__PRECACHE_MANIFEST = { version: 'dev', urls: [] }")
+      })
+    },
+    generateBundle(_options, bundle) {
+      const publicFiles = publicDir ? readdirSync(publicDir) : []
+      const urls = ['./', ...Object.keys(bundle), ...publicFiles]
+        .filter((file) => !PRECACHE_EXCLUDE.includes(file))
+        .filter((file, index, files) => files.indexOf(file) === index)
+        .sort()
+
+      const manifest = { version: hashString(urls.join('\n')), urls }
+      this.emitFile({
+        type: 'asset',
+        fileName: 'precache-manifest.js',
+        source: `self.__PRECACHE_MANIFEST = ${JSON.stringify(manifest)}\n`,
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [preact()],
+  plugins: [preact(), precacheManifest()],
   base: '/kid-timer/',
+  test: {
+    // redux-zero only ships CommonJS, which requires Preact's CommonJS build. Tests run it as it is, so point every
+    // other Preact import there too - components connected to the store must be rendered by their hooks' Preact
+    alias: ['preact', 'preact/hooks', 'preact/jsx-runtime'].map((name) => ({
+      find: new RegExp(`^${name}$`),
+      replacement: require.resolve(name),
+    })),
+  },
 })